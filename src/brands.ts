@@ -0,0 +1,96 @@
+/**
+ * Module: Brand → Generic Resolution
+ * Purpose: Recognise brand names sitting in the generic column ("Augmentin", "Panadol") using a
+ * caller-supplied brand table, so the brand moves to `brand_name` and the INN takes its place.
+ * POS exports (`concat_items`) almost always carry the brand in `Name`.
+ * Table: `{ brand, inn, aliases? }` records (JSON or CSV); keys ignore case and punctuation, and a
+ * trailing pack/strength number (`Augmentin 625`) is ignored when the full name has no entry.
+ * Signed: EyosiyasJ
+ */
+
+import { parseCsvToRows } from "./csv.js";
+import { formularyKey } from "./formulary.js";
+import type { BrandResolution, BrandTable, BrandTableEntry } from "./types.js";
+
+const TRAILING_NUMBER_RE = /(?:\s+\d+(?:\.\d+)?)+$/;
+
+/**
+ * Build the default in-memory brand table; earlier entries win when a brand or alias repeats.
+ * Signed: EyosiyasJ
+ */
+export function createBrandTable(entries: BrandTableEntry[]): BrandTable {
+  const index = new Map<string, BrandResolution>();
+  for (const entry of entries) {
+    const brand = String(entry?.brand ?? "").trim();
+    const inn = String(entry?.inn ?? "").trim();
+    if (!brand || !inn) continue;
+    for (const name of [brand, ...(entry.aliases ?? [])]) {
+      const key = formularyKey(name);
+      if (key && !index.has(key)) index.set(key, { brand, inn });
+    }
+  }
+  return {
+    resolve(name: string): BrandResolution | null {
+      const key = formularyKey(name);
+      if (!key) return null;
+      const hit = index.get(key) ?? index.get(key.replace(TRAILING_NUMBER_RE, ""));
+      return hit ? { ...hit } : null;
+    },
+  };
+}
+
+const splitList = (v: unknown): string[] =>
+  String(v ?? "")
+    .split(/[|;]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+function toEntry(raw: any): BrandTableEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const brand = String(raw.brand ?? raw.brand_name ?? "").trim();
+  const inn = String(raw.inn ?? raw.generic_name ?? raw.generic ?? "").trim();
+  if (!brand || !inn) return null;
+  const aliases = Array.isArray(raw.aliases) ? raw.aliases.map((s: unknown) => String(s ?? "").trim()).filter(Boolean) : splitList(raw.aliases);
+  return { brand, inn, ...(aliases.length ? { aliases } : {}) };
+}
+
+/**
+ * Read brand table entries from JSON text (or an already-parsed value): an array of
+ * `{ brand, inn, aliases? }`, `{ entries: [...] }`, or a plain `{ "Brand": "INN" }` object.
+ * `brand_name` and `generic_name`/`generic` are accepted as field names; invalid JSON yields `[]`.
+ * Signed: EyosiyasJ
+ */
+export function parseBrandTableJson(input: unknown): BrandTableEntry[] {
+  let data: any = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      return [];
+    }
+  }
+  if (data && typeof data === "object" && !Array.isArray(data) && !Array.isArray(data.entries)) {
+    return Object.entries(data)
+      .filter(([, inn]) => typeof inn === "string")
+      .map(([brand, inn]) => toEntry({ brand, inn }))
+      .filter((e): e is BrandTableEntry => e !== null);
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.entries) ? data.entries : [];
+  return list.map(toEntry).filter((e: BrandTableEntry | null): e is BrandTableEntry => e !== null);
+}
+
+/**
+ * Read brand table entries from CSV text with a header row: `brand`, `inn` (or `generic_name`/`generic`)
+ * and optional `aliases` (`|`/`;`-separated). Header names are case-insensitive.
+ * Signed: EyosiyasJ
+ */
+export function parseBrandTableCsv(csvText: string): BrandTableEntry[] {
+  const rows = parseCsvToRows(String(csvText ?? "").replace(/^\uFEFF/, ""));
+  return rows
+    .map((r) => {
+      const lower: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(r)) lower[k.trim().toLowerCase()] = v;
+      return toEntry(lower);
+    })
+    .filter((e): e is BrandTableEntry => e !== null);
+}
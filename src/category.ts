@@ -1,3 +1,14 @@
+import type {
+  UmbrellaClassifier,
+  UmbrellaClassifierInput,
+  UmbrellaExplanation,
+  UmbrellaId,
+  UmbrellaRule,
+  UmbrellaRuleEntry,
+  UmbrellaRuleIssue,
+  UmbrellaRuleScore,
+} from "./types.js";
+
 export type UmbrellaCategoryId =
   | "GASTROINTESTINAL"
   | "RESPIRATORY"
@@ -74,54 +85,298 @@ export function mapCategoryCodeToUmbrella(code: string | null | undefined): Umbr
   return k ? CATEGORY_CODE_TO_UMBRELLA[k] : undefined;
 }
 
+/**
+ * WHO ATC code shape at any level: anatomical group (`J`), therapeutic (`J01`), pharmacological
+ * (`J01C`), chemical (`J01CA`) or substance (`J01CA04`).
+ */
+export const ATC_CODE_RE = /^[A-Z](?:\d{2}(?:[A-Z](?:[A-Z](?:\d{2})?)?)?)?$/;
+
+/**
+ * Map ATC group prefixes to umbrella IDs; the longest matching prefix wins, so a therapeutic or
+ * pharmacological group can refine its anatomical group (`J07` vaccines within `J` anti-infectives).
+ * Signed: EyosiyasJ
+ */
+export const ATC_PREFIX_TO_UMBRELLA: Record<string, UmbrellaCategoryId> = {
+  A: "GASTROINTESTINAL",
+  A10: "ENDO_CONTRACEPTIVES",
+  A11: "VITAMINS",
+  A12: "VITAMINS",
+  B: "BLOOD",
+  B05: "FLUID_ELECTROLYTE",
+  C: "CARDIOVASCULAR",
+  D: "DERMATOLOGICAL",
+  G: "OB_GYN",
+  G03: "ENDO_CONTRACEPTIVES",
+  G04: "MISC",
+  G04C: "BPH",
+  H: "ENDO_CONTRACEPTIVES",
+  J: "ANTI_INFECTIVES",
+  J06: "SERA_IG",
+  J07: "VACCINES",
+  L: "ANTINEOPLASTICS_SUPPORT",
+  L03: "IMMUNOMODULATORS",
+  L04: "IMMUNOMODULATORS",
+  M: "MUSCULOSKELETAL",
+  N: "CNS",
+  N01: "ANESTHESIA",
+  P: "ANTI_INFECTIVES",
+  R: "RESPIRATORY",
+  S: "OPHTHALMIC",
+  S02: "ENT",
+  V: "MISC",
+  V03AB: "ANTIDOTES_POISONING",
+  V06: "VITAMINS",
+  V08: "RADIOCONTRAST",
+};
+
+/**
+ * Canonical ATC code: upper-cased with spaces, dots and dashes removed (`j01 ca04` → `J01CA04`);
+ * undefined when the result is not a valid ATC shape.
+ * Signed: EyosiyasJ
+ */
+export function normalizeAtcCode(code: string | null | undefined): string | undefined {
+  const k = String(code ?? "").toUpperCase().replace(/[\s.\-]/g, "");
+  return ATC_CODE_RE.test(k) ? k : undefined;
+}
+
+/**
+ * Resolve umbrella ID from a WHO ATC code via its longest known group prefix.
+ * Signed: EyosiyasJ
+ */
+export function mapAtcCodeToUmbrella(code: string | null | undefined): UmbrellaCategoryId | undefined {
+  const k = normalizeAtcCode(code);
+  if (!k) return undefined;
+  for (let len = k.length; len > 0; len--) {
+    const hit = ATC_PREFIX_TO_UMBRELLA[k.slice(0, len)];
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
 const norm = (s: unknown): string => String(s ?? "").toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
 const textIncludesAny = (hay: string, needles: string[]): boolean => needles.some((n) => hay.includes(n));
 
+const matchedKeywords = (hay: string, needles: string[] | undefined): string[] => (hay && needles ? needles.filter((n) => hay.includes(n)) : []);
+
+/** Minimum winning score, and minimum lead over the runner-up, for a text classification. */
+const MIN_UMBRELLA_SCORE = 3;
+const MIN_UMBRELLA_SEPARATION = 2;
+
 /**
- * Score and select umbrella category based on raw product fields.
- * Weights category keywords, generic/brand signals, description hits, device signals,
- * and negative keywords with separation threshold to avoid misclassification.
+ * Full scoring behind `classifyUmbrellaCategory`: every rule ranked by score with its signal
+ * breakdown and matched keywords, the best-vs-second separation, and why no result was returned
+ * (`no_signal`, `below_min_score`, `too_close`).
+ * Signals: category keywords in `category` +3, generic keywords in generic/brand +2, category
+ * keywords in `description` +1, device keywords +2 (+4 for MISC); negative category keywords cost 6
+ * and negative generic keywords 4. A winner needs score ≥ 3 and a lead ≥ 2.
+ * Combination products: with `ingredients` (2+), each ingredient is scored on its own and the
+ * generic signal is the rule's share of recognised ingredients, so one ingredient of a mixed
+ * combination cannot claim the whole product (unrecognised ingredients such as clavulanic acid
+ * do not dilute the share).
  * Signed: EyosiyasJ
  */
-export function classifyUmbrellaCategory(input: {
-  generic_name?: string | null;
-  brand_name?: string | null;
-  category?: string | null;
-  description?: string | null;
-}): UmbrellaCategoryId | undefined {
+export function explainUmbrellaCategory(input: UmbrellaClassifierInput): UmbrellaExplanation {
+  return explainWithRules(UMBRELLA_CATEGORY_RULES, input);
+}
+
+function explainWithRules(rules: readonly UmbrellaRule[], input: UmbrellaClassifierInput): UmbrellaExplanation {
+  // Combination products: only ingredients some rule recognises share the generic signal
+  const ingredients = (input.ingredients ?? []).map(norm).filter(Boolean);
+  const known = ingredients.filter((ing) => rules.some((rule) => textIncludesAny(ing, rule.genericKeywords)));
+  const perIngredient = ingredients.length >= 2 && known.length > 0;
   const g = norm(input.generic_name);
   const b = norm(input.brand_name);
   const c = norm(input.category);
   const d = norm(input.description);
   const combined = [g, b, c, d].filter(Boolean).join(" ");
-  let bestId: UmbrellaCategoryId | undefined;
-  let bestScore = 0;
-  let secondScore = 0;
-  for (const rule of UMBRELLA_CATEGORY_RULES) {
-    const catScore = c && textIncludesAny(c, rule.categoryKeywords) ? 3 : 0;
-    const genScore = (textIncludesAny(g, rule.genericKeywords) || textIncludesAny(b, rule.genericKeywords)) ? 2 : 0;
-    const descScore = d && textIncludesAny(d, rule.categoryKeywords) ? 1 : 0;
-    const deviceScore = rule.deviceKeywords ? (textIncludesAny(combined, rule.deviceKeywords) ? (rule.id === "MISC" ? 4 : 2) : 0) : 0;
-    let negative = 0;
-    if (rule.negativeCategoryKeywords?.length) {
-      if (textIncludesAny(combined, rule.negativeCategoryKeywords)) negative += 3;
+  const ranked: UmbrellaRuleScore[] = rules.map((rule) => {
+    const catHits = matchedKeywords(c, rule.categoryKeywords);
+    const brandHits = matchedKeywords(b, rule.genericKeywords);
+    const genHits = perIngredient
+      ? Array.from(new Set([...known.flatMap((ing) => matchedKeywords(ing, rule.genericKeywords)), ...brandHits]))
+      : Array.from(new Set([...matchedKeywords(g, rule.genericKeywords), ...brandHits]));
+    const descHits = matchedKeywords(d, rule.categoryKeywords);
+    const deviceHits = matchedKeywords(combined, rule.deviceKeywords);
+    const negCatHits = matchedKeywords(combined, rule.negativeCategoryKeywords);
+    const negGenHits = matchedKeywords(combined, rule.negativeGenericKeywords);
+
+    const catScore = catHits.length ? 3 : 0;
+    const genScore = perIngredient
+      ? Math.max((2 * known.filter((ing) => textIncludesAny(ing, rule.genericKeywords)).length) / known.length, brandHits.length ? 2 : 0)
+      : genHits.length ? 2 : 0;
+    const descScore = descHits.length ? 1 : 0;
+    const deviceScore = deviceHits.length ? (rule.id === "MISC" ? 4 : 2) : 0;
+    const negative = ((negCatHits.length ? 3 : 0) + (negGenHits.length ? 2 : 0)) * 2;
+    return {
+      id: rule.id,
+      score: catScore + genScore + descScore + deviceScore - negative,
+      signals: { category: catScore, generic: genScore, description: descScore, device: deviceScore, negative },
+      matched: {
+        category: catHits,
+        generic: genHits,
+        description: descHits,
+        device: deviceHits,
+        negative: [...negCatHits, ...negGenHits],
+      },
+    };
+  });
+  // Stable sort: on equal scores the earlier rule ranks first
+  ranked.sort((x, y) => y.score - x.score);
+
+  const bestScore = Math.max(0, ranked[0]?.score ?? 0);
+  const secondScore = Math.max(0, ranked[1]?.score ?? 0);
+  const best = bestScore > 0 ? ranked[0].id : undefined;
+  const out: UmbrellaExplanation = {
+    ranked,
+    best,
+    bestScore,
+    secondScore,
+    separation: bestScore - secondScore,
+    thresholds: { minScore: MIN_UMBRELLA_SCORE, minSeparation: MIN_UMBRELLA_SEPARATION },
+  };
+  if (!best) out.withheld = "no_signal";
+  else if (bestScore < MIN_UMBRELLA_SCORE) out.withheld = "below_min_score";
+  else if (bestScore - secondScore < MIN_UMBRELLA_SEPARATION) out.withheld = "too_close";
+  else out.result = best;
+  return out;
+}
+
+/**
+ * Score and select umbrella category based on raw product fields.
+ * Weights category keywords, generic/brand signals, description hits, device signals,
+ * and negative keywords with separation threshold to avoid misclassification.
+ * See `explainUmbrellaCategory` for the scoring table and combination handling.
+ * Signed: EyosiyasJ
+ */
+export function classifyUmbrellaCategory(input: UmbrellaClassifierInput): UmbrellaCategoryId | undefined {
+  return explainUmbrellaCategory(input).result as UmbrellaCategoryId | undefined;
+}
+
+/**
+ * Umbrella for a single active ingredient name: the one rule whose generic keywords match it,
+ * or undefined when none or several do (ingredient names carry no category context to break ties).
+ * Signed: EyosiyasJ
+ */
+export function classifyIngredientUmbrella(name: string | null | undefined): UmbrellaCategoryId | undefined {
+  return ingredientUmbrellaWithRules(UMBRELLA_CATEGORY_RULES, name) as UmbrellaCategoryId | undefined;
+}
+
+function ingredientUmbrellaWithRules(rules: readonly UmbrellaRule[], name: string | null | undefined): UmbrellaId | undefined {
+  const n = norm(name);
+  if (!n) return undefined;
+  const hits = rules.filter((rule) => textIncludesAny(n, rule.genericKeywords));
+  return hits.length === 1 ? hits[0].id : undefined;
+}
+
+const UMBRELLA_ID_RE = /^[A-Z][A-Z0-9_]*$/;
+const RULE_KEYWORD_FIELDS = [
+  "categoryKeywords",
+  "genericKeywords",
+  "deviceKeywords",
+  "negativeCategoryKeywords",
+  "negativeGenericKeywords",
+] as const;
+
+const normKeywords = (list: string[] | undefined): string[] => Array.from(new Set((list ?? []).map(norm).filter(Boolean)));
+
+/**
+ * Merge caller entries into the built-in rules. Returns the rules the classifier applies and the
+ * problems found: invalid and duplicate entries are skipped, keyword collisions are only reported.
+ * Collisions compare caller category/generic keywords with the same list of every other umbrella.
+ */
+function mergeUmbrellaRules(entries: UmbrellaRuleEntry[]): { rules: UmbrellaRule[]; issues: UmbrellaRuleIssue[] } {
+  const issues: UmbrellaRuleIssue[] = [];
+  const rules = new Map<string, UmbrellaRule>(UMBRELLA_CATEGORY_RULES.map((r) => [r.id, r]));
+  const seen = new Set<string>();
+  const supplied: UmbrellaRuleEntry[] = [];
+  for (const entry of entries) {
+    const id = String(entry?.id ?? "").trim();
+    if (!UMBRELLA_ID_RE.test(id)) {
+      issues.push({ code: "E_UMBRELLA_RULE_INVALID", ruleId: id, message: `umbrella rule id '${id}' must be UPPER_SNAKE_CASE` });
+      continue;
     }
-    if (rule.negativeGenericKeywords?.length) {
-      if (textIncludesAny(combined, rule.negativeGenericKeywords)) negative += 2;
+    if (seen.has(id)) {
+      issues.push({ code: "E_UMBRELLA_RULE_DUPLICATE", ruleId: id, message: `umbrella rule '${id}' is supplied more than once; later entries ignored` });
+      continue;
     }
-    const score = catScore + genScore + descScore + deviceScore - negative * 2;
-    if (score > bestScore) {
-      secondScore = bestScore;
-      bestScore = score;
-      bestId = rule.id;
-    } else if (score > secondScore) {
-      secondScore = score;
+    seen.add(id);
+    const keywords = Object.fromEntries(RULE_KEYWORD_FIELDS.map((f) => [f, normKeywords(entry[f])])) as Record<
+      (typeof RULE_KEYWORD_FIELDS)[number],
+      string[]
+    >;
+    const label = String(entry.label ?? "").trim();
+    const base = rules.get(id);
+    if (!base || entry.replace) {
+      if (!base && !label) {
+        issues.push({ code: "E_UMBRELLA_RULE_INVALID", ruleId: id, message: `new umbrella '${id}' needs a label` });
+        continue;
+      }
+      if (!keywords.categoryKeywords.length && !keywords.genericKeywords.length && !keywords.deviceKeywords.length) {
+        issues.push({ code: "E_UMBRELLA_RULE_INVALID", ruleId: id, message: `umbrella rule '${id}' has no category, generic or device keywords` });
+        continue;
+      }
+      rules.set(id, {
+        id,
+        label: label || base!.label,
+        description: entry.description ?? base?.description,
+        categoryKeywords: keywords.categoryKeywords,
+        genericKeywords: keywords.genericKeywords,
+        deviceKeywords: keywords.deviceKeywords,
+        negativeCategoryKeywords: keywords.negativeCategoryKeywords,
+        negativeGenericKeywords: keywords.negativeGenericKeywords,
+      });
+    } else {
+      const merged: UmbrellaRule = { ...base, label: label || base.label, description: entry.description ?? base.description };
+      for (const f of RULE_KEYWORD_FIELDS) {
+        merged[f] = Array.from(new Set([...(base[f] ?? []), ...keywords[f]]));
+      }
+      rules.set(id, merged);
     }
+    supplied.push({ id, categoryKeywords: keywords.categoryKeywords, genericKeywords: keywords.genericKeywords });
   }
-  if (!bestId) return undefined;
-  if (bestScore < 3) return undefined;
-  if (bestScore - secondScore < 2) return undefined;
-  return bestId;
+  const merged = Array.from(rules.values());
+  for (const entry of supplied) {
+    for (const f of ["categoryKeywords", "genericKeywords"] as const) {
+      for (const keyword of entry[f] ?? []) {
+        const other = merged.find((r) => r.id !== entry.id && r[f].includes(keyword));
+        if (other) {
+          issues.push({
+            code: "W_UMBRELLA_KEYWORD_COLLISION",
+            ruleId: entry.id,
+            keyword,
+            otherRuleId: other.id,
+            message: `keyword '${keyword}' of umbrella '${entry.id}' is also a ${f} entry of '${other.id}'`,
+          });
+        }
+      }
+    }
+  }
+  return { rules: merged, issues };
+}
+
+/**
+ * Check caller umbrella rules without building a classifier (see `UmbrellaRuleIssue` for the codes).
+ * Signed: EyosiyasJ
+ */
+export function validateUmbrellaRules(entries: UmbrellaRuleEntry[]): UmbrellaRuleIssue[] {
+  return mergeUmbrellaRules(entries).issues;
+}
+
+/**
+ * Build an umbrella classifier from the built-in rules plus caller entries: new umbrellas (local
+ * molecules, herbal products) are appended after the built-ins, built-in IDs gain the entry's
+ * keywords or, with `replace`, take them instead. Scoring and thresholds are those of
+ * `explainUmbrellaCategory`; `issues` lists what `validateUmbrellaRules` found.
+ * Signed: EyosiyasJ
+ */
+export function createUmbrellaClassifier(entries: UmbrellaRuleEntry[] = []): UmbrellaClassifier {
+  const { rules, issues } = mergeUmbrellaRules(entries);
+  return {
+    rules,
+    issues,
+    explain: (input) => explainWithRules(rules, input),
+    classifyIngredient: (name) => ingredientUmbrellaWithRules(rules, name),
+  };
 }
 
 /**
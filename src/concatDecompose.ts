@@ -1,9 +1,11 @@
 import { normalizeCountryToIso2 } from "./country.js";
+import { findGs1Payload, isValidGtin } from "./gs1.js";
 
 /**
  * Module: Concatenated Text Decomposition
  * Purpose: Extract canonical fields (strength, form, pack contents, COO, GTIN, batch, manufacturer)
  * from mixed text cells and provide a cleaned leftover for textual targets.
+ * Scanned GS1 payloads (`(01)…(17)…(10)…(21)…`) are decoded first and take precedence.
  * Modes:
  * - `default`: balanced extraction for flagged concat columns.
  * - `opportunistic`: stricter acceptance for mixed columns; requires multiple signals.
@@ -32,6 +34,7 @@ export type CanonicalFieldPath =
   | "batch.unit_price"
   | "identity.coo"
   | "identity.sku"
+  | "identity.serial_no"
   | "identity.purchase_unit"
   | "pkg.pieces_per_unit";
 
@@ -64,13 +67,17 @@ export function decomposeConcatenatedCell(raw: string, opts?: { mode?: "default"
   const tokens = tokenize(cleaned);
   const extractions: ConcatExtraction[] = [];
   const anchoredForm = detectFormPhrase(cleaned);
-  const splitFallback = splitNameGenericStrengthForm(cleaned);
+  const gs1 = findGs1Payload(cleaned);
+  // Name split runs on the text around a GS1 payload so the payload never becomes leftover
+  const splitText = gs1 ? cleaned.replace(gs1.match, " ").replace(/\s+/g, " ").trim() : cleaned;
+  const splitFallback = splitText ? splitNameGenericStrengthForm(splitText) : {};
   let fallbackApplied = false;
 
   if (anchoredForm && !extractions.some((e) => e.field === "product.form")) {
     extractions.push({ field: "product.form", value: anchoredForm.canonical, confidence: 0.92, reason: "form_phrase_anchor" });
   }
 
+  if (gs1) applyGs1(gs1, tokens, extractions);
   detectStrength(tokens, extractions);
   detectForm(tokens, extractions);
   detectPackContents(tokens, extractions);
@@ -198,7 +205,8 @@ export function splitNameGenericStrengthForm(raw: string): { generic_name?: stri
   }
 
   // Strength pattern capturing last block with units/ratios/% w/w
-  const STRENGTH_PATTERN = /([0-9]+(?:[\.,][0-9]+)?(?:\s*[+\/]\s*[0-9]+(?:[\.,][0-9]+)?)*[\s-]*(?:mg|mcg|g|ml|iu|iu\/ml|-?%)(?:[\/\-\s]*[0-9]+(?:[\.,][0-9]+)?[\s-]*(?:mg|mcg|g|ml|%))?(?:\s*\/\s*ml)?(?:-\s*(?:%\s*)?[wW]\/[wW])?)/i;
+  // Leading `200mg+` amounts keep combination strengths (`200mg+40mg/5ml`) in one block
+  const STRENGTH_PATTERN = /((?:[0-9]+(?:[\.,][0-9]+)?\s*(?:mg|mcg|g|iu)\s*\+\s*)*[0-9]+(?:[\.,][0-9]+)?(?:\s*[+\/]\s*[0-9]+(?:[\.,][0-9]+)?)*[\s-]*(?:mg|mcg|g|ml|iu|iu\/ml|-?%)(?:[\/\-\s]*[0-9]+(?:[\.,][0-9]+)?[\s-]*(?:mg|mcg|g|ml|%))?(?:\s*\/\s*ml)?(?:-\s*(?:%\s*)?[wW]\/[wW])?)/i;
   let strength: string | undefined;
   let generic: string | undefined;
   let leftover: string | undefined;
@@ -433,23 +441,28 @@ function detectCountry(tokens: Token[], out: ConcatExtraction[]) {
   }
 }
 
-function isLikelyGtin13(text: string): boolean {
-  const digits = text.replace(/\D/g, "");
-  if (digits.length !== 13) return false;
-  let sum = 0;
-  for (let i = 0; i < 12; i++) {
-    const n = parseInt(digits[i], 10);
-    sum += i % 2 === 0 ? n : n * 3;
+/**
+ * Emit a decoded GS1 payload (GTIN, AI 17 expiry, AI 10 batch, AI 21 serial) and consume its
+ * tokens so fragment detectors (GTIN/batch/date) do not re-read them.
+ * Signed: EyosiyasJ
+ */
+function applyGs1(gs1: NonNullable<ReturnType<typeof findGs1Payload>>, tokens: Token[], out: ConcatExtraction[]) {
+  if (gs1.gtin) out.push({ field: "identity.sku", value: gs1.gtin, confidence: 0.98, reason: "gs1_ai01" });
+  if (gs1.expiry) out.push({ field: "batch.expiry_date", value: gs1.expiry, confidence: 0.98, reason: "gs1_ai17" });
+  if (gs1.batch) out.push({ field: "batch.batch_no", value: gs1.batch, confidence: 0.98, reason: "gs1_ai10" });
+  if (gs1.serial) out.push({ field: "identity.serial_no", value: gs1.serial, confidence: 0.98, reason: "gs1_ai21" });
+  for (const part of gs1.match.split(/\s+/)) {
+    const tok = tokens.find((t) => !t.consumed && t.text === part);
+    if (tok) tok.consumed = true;
   }
-  const check = (10 - (sum % 10)) % 10;
-  return check === parseInt(digits[12], 10);
 }
 
 function detectGtin(tokens: Token[], out: ConcatExtraction[]) {
   for (const tok of tokens) {
     if (tok.consumed) continue;
-    if (/^\d{8,16}$/.test(tok.text) && isLikelyGtin13(tok.text)) {
-      out.push({ field: "identity.sku", value: tok.text, confidence: 0.95, reason: "gtin13" });
+    // GTIN-12/13/14 with a valid check digit; 8-digit codes are too easily confused with plain numbers here
+    if (/^\d{12,14}$/.test(tok.text) && isValidGtin(tok.text)) {
+      out.push({ field: "identity.sku", value: tok.text, confidence: 0.95, reason: `gtin${tok.text.length}` });
       tok.consumed = true;
       return;
     }
@@ -0,0 +1,121 @@
+/**
+ * Module: Duplicate Batch Detection
+ * Purpose: Post-sanitize pass that finds rows sharing the same product identity and batch
+ * (pharmacies often paste one batch twice with split quantities) and applies a policy.
+ * Identity: generic_name + strength + form + manufacturer (case/whitespace-insensitive);
+ * batch: `batch.batch_no` (rows without a real batch number — empty or `NA` — are never grouped).
+ * Policies:
+ * - `report`: keep every row; later occurrences get `W_DUPLICATE_BATCH` pointing at the first.
+ * - `merge`: later occurrences are folded into the first (on_hand summed); differing price/expiry
+ *   are flagged with `W_DUPLICATE_CONFLICT` and the first row's values are kept.
+ * - `keep_first`: later occurrences are dropped (and reported).
+ * Signed: EyosiyasJ
+ */
+
+import type { CanonicalProduct, DuplicatePolicy, ParsedImportResult, ParsedRowError } from "./types.js";
+
+type DuplicateGroup = NonNullable<ParsedImportResult["meta"]["duplicateGroups"]>[number];
+
+const norm = (v: unknown): string => {
+  const s = String(v ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+  return s === "na" || s === "n/a" ? "" : s;
+};
+
+/**
+ * Product identity + batch key for a sanitized row; `undefined` when the row has no usable batch number.
+ * Signed: EyosiyasJ
+ */
+export function duplicateKey(row: CanonicalProduct): string | undefined {
+  const batch = String(row.batch?.batch_no ?? "").trim().toUpperCase();
+  if (!batch || batch === "NA" || batch === "N/A") return undefined;
+  return `${productKey(row)}|${batch}`;
+}
+
+/**
+ * Product identity key (generic name, strength, form, manufacturer) shared by duplicate detection and
+ * the distinct-product count of `meta.summary`.
+ * Signed: EyosiyasJ
+ */
+export function productKey(row: CanonicalProduct): string {
+  const p = row.product;
+  return [
+    norm(p.generic_name),
+    norm(p.strength).replace(/\s+/g, ""),
+    norm(p.form),
+    norm(p.manufacturer_name),
+  ].join("|");
+}
+
+/**
+ * Create a stateful tracker; feed sanitized rows in source order via `add`.
+ * `add` returns whether the row should be kept and any duplicate errors for it.
+ * `groups()` lists every key seen more than once (for `meta.duplicateGroups`).
+ * Signed: EyosiyasJ
+ */
+export function createDuplicateTracker(policy: DuplicatePolicy) {
+  const firstByKey = new Map<string, { row: CanonicalProduct; rowIndex: number; group?: DuplicateGroup }>();
+  const groups: DuplicateGroup[] = [];
+  const action: DuplicateGroup["action"] =
+    policy === "merge" ? "merged" : policy === "keep_first" ? "dropped" : "reported";
+
+  const add = (row: CanonicalProduct, rowIndex: number): { keep: boolean; errors: ParsedRowError[] } => {
+    const key = duplicateKey(row);
+    if (!key) return { keep: true, errors: [] };
+    const first = firstByKey.get(key);
+    if (!first) {
+      firstByKey.set(key, { row, rowIndex });
+      return { keep: true, errors: [] };
+    }
+    if (!first.group) {
+      first.group = {
+        key,
+        generic_name: first.row.product.generic_name,
+        batch_no: first.row.batch.batch_no,
+        firstRow: first.rowIndex,
+        rows: [first.rowIndex],
+        totalOnHand: Number(first.row.batch.on_hand) || 0,
+        action,
+      };
+      groups.push(first.group);
+    }
+    const g = first.group;
+    g.rows.push(rowIndex);
+    g.totalOnHand += Number(row.batch.on_hand) || 0;
+
+    const lead = policy === "merge" ? "Merged into" : policy === "keep_first" ? "Dropped in favour of" : "Duplicate of";
+    const errors: ParsedRowError[] = [
+      {
+        row: rowIndex,
+        field: "batch.batch_no",
+        code: "W_DUPLICATE_BATCH",
+        message: `${lead} row ${first.rowIndex}: same product and batch '${row.batch.batch_no}'`,
+        relatedRow: first.rowIndex,
+      },
+    ];
+    if (policy === "report") return { keep: true, errors };
+    if (policy === "keep_first") return { keep: false, errors };
+
+    // merge: fold quantity into the first occurrence, flag conflicting price/expiry
+    first.row.batch.on_hand = (Number(first.row.batch.on_hand) || 0) + (Number(row.batch.on_hand) || 0);
+    const conflicts: Array<["batch.unit_price" | "batch.expiry_date", unknown, unknown]> = [];
+    if ((row.batch.unit_price ?? null) !== (first.row.batch.unit_price ?? null)) {
+      conflicts.push(["batch.unit_price", first.row.batch.unit_price, row.batch.unit_price]);
+    }
+    if (String(row.batch.expiry_date ?? "") !== String(first.row.batch.expiry_date ?? "")) {
+      conflicts.push(["batch.expiry_date", first.row.batch.expiry_date, row.batch.expiry_date]);
+    }
+    for (const [field, kept, other] of conflicts) {
+      g.conflicts = Array.from(new Set([...(g.conflicts ?? []), field]));
+      errors.push({
+        row: rowIndex,
+        field,
+        code: "W_DUPLICATE_CONFLICT",
+        message: `Conflicting ${field.split(".")[1]} '${other ?? ""}' vs '${kept ?? ""}' in row ${first.rowIndex}; kept row ${first.rowIndex}`,
+        relatedRow: first.rowIndex,
+      });
+    }
+    return { keep: false, errors };
+  };
+
+  return { add, groups: () => groups };
+}
@@ -0,0 +1,195 @@
+/**
+ * Module: Template Export
+ * Purpose: Write canonical rows back to a clean MedWay template workbook (onboarding flow:
+ * messy supplier file → staff fixes → clean template handed back).
+ * - `exportToTemplateV4` writes the current template (v4 adds ATC Code, Storage Conditions and
+ *   Controlled Substance); its output re-parses as `template_v4` with no `W_TEMPLATE_OUTDATED`.
+ * - `exportToTemplateV3` is kept for consumers still on v3. v3 has no ATC/storage/controlled columns,
+ *   so those fields are dropped, and its files re-parse with `W_TEMPLATE_OUTDATED`.
+ * Layout:
+ * - `Products` sheet with the version's headers in order; `NA` fallbacks are written as blank cells.
+ * - `__meta` sheet with `template_version` / `header_checksum` (A1/B1, A2/B2) as read by `extractMetaFromWorkbook`.
+ * - Cells that had errors carry `CODE: message` as a cell comment; every error is also listed on an
+ *   `__errors` sheet (row, column, code, message). SheetJS CE cannot write cell fills, so the comment
+ *   marker is the in-cell highlight.
+ * Re-parsing the exported file yields the same canonical rows for template-sourced input.
+ * Signed: EyosiyasJ
+ */
+
+import * as XLSX from "xlsx";
+import {
+  TEMPLATE_V3_HEADERS,
+  TEMPLATE_VERSION,
+  TEMPLATE_CHECKSUM,
+  TEMPLATE_V4_HEADERS,
+  TEMPLATE_V4_VERSION,
+  TEMPLATE_V4_CHECKSUM,
+} from "./schema.js";
+import type { CanonicalProduct, ParsedRowError } from "./types.js";
+
+/**
+ * Canonical field path → template column header (for placing error comments).
+ * v4-only headers are skipped when the v3 layout has no such column.
+ */
+const FIELD_TO_TEMPLATE_HEADER: Record<string, string> = {
+  "product.generic_name": "Generic (International Name)",
+  "identity.product_type": "Product Type",
+  "product.strength": "Strength",
+  "product.form": "Dosage Form",
+  "product.category": "Product Category",
+  "batch.expiry_date": "Expiry Date",
+  "pkg.pieces_per_unit": "Pack Contents",
+  "batch.batch_no": "Batch / Lot Number",
+  "batch.on_hand": "Item Quantity",
+  "batch.unit_price": "Unit Price",
+  "identity.coo": "Country of Manufacture",
+  "batch.coo": "Country of Manufacture",
+  "identity.sku": "Serial Number",
+  "product.brand_name": "Brand Name",
+  "product.manufacturer_name": "Manufacturer",
+  "product.description": "Notes",
+  "identity.atc_code": "ATC Code",
+  "product.storage_conditions": "Storage Conditions",
+  "product.is_controlled": "Controlled Substance",
+};
+
+/** Header row and `__meta` values written for one template version. */
+interface TemplateLayout {
+  headers: string[];
+  version: string;
+  checksum: string;
+}
+
+const TEMPLATE_V3_LAYOUT: TemplateLayout = { headers: TEMPLATE_V3_HEADERS, version: TEMPLATE_VERSION, checksum: TEMPLATE_CHECKSUM };
+const TEMPLATE_V4_LAYOUT: TemplateLayout = { headers: TEMPLATE_V4_HEADERS, version: TEMPLATE_V4_VERSION, checksum: TEMPLATE_V4_CHECKSUM };
+
+const blankNA = (v: unknown): string => {
+  const s = String(v ?? "").trim();
+  return s === "NA" ? "" : s;
+};
+
+/**
+ * ISO `YYYY-MM-DD` → template `DD/MM/YYYY`; other values pass through.
+ * Signed: EyosiyasJ
+ */
+const isoToTemplateDate = (v: unknown): string => {
+  const s = String(v ?? "").trim();
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  return m ? `${m[3]}/${m[2]}/${m[1]}` : s;
+};
+
+/**
+ * Project a canonical row onto template columns (same order as `headers`).
+ * Signed: EyosiyasJ
+ */
+function toTemplateCells(row: CanonicalProduct, headers: string[]): Array<string | number> {
+  const num = (v: unknown): string | number =>
+    typeof v === "number" && Number.isFinite(v) ? v : "";
+  const byHeader: Record<string, string | number> = {
+    "Generic (International Name)": blankNA(row.product.generic_name),
+    "Product Type": blankNA(row.identity?.product_type),
+    "Strength": blankNA(row.product.strength),
+    "Dosage Form": blankNA(row.product.form),
+    "Product Category": blankNA(row.product.category),
+    "Expiry Date": isoToTemplateDate(row.batch.expiry_date),
+    "Pack Contents": num(row.pkg?.pieces_per_unit),
+    "Batch / Lot Number": blankNA(row.batch.batch_no),
+    "Item Quantity": num(row.batch.on_hand),
+    "Unit Price": num(row.batch.unit_price),
+    "Country of Manufacture": blankNA(row.batch.coo ?? row.identity?.coo),
+    "Serial Number": blankNA(row.identity?.sku),
+    "Brand Name": blankNA(row.product.brand_name),
+    "Manufacturer": blankNA(row.product.manufacturer_name),
+    "Notes": blankNA(row.product.description),
+    "ATC Code": blankNA(row.identity?.atc_code),
+    "Storage Conditions": blankNA(row.product.storage_conditions),
+    "Controlled Substance": typeof row.product.is_controlled === "boolean" ? (row.product.is_controlled ? "Yes" : "No") : "",
+  };
+  return headers.map((h) => byHeader[h] ?? "");
+}
+
+/**
+ * exportToTemplateV4
+ * Build a Template v4 (current) workbook from canonical rows.
+ *
+ * Parameters:
+ * - `rows`: canonical rows (e.g. `ParsedImportResult.rows` after staff edits).
+ * - `errors`: optional `ParsedRowError[]` to annotate; matched to rows by row number.
+ * - `options.sourceRows`: source row number of each entry in `rows` (as reported by `errors[].row`).
+ *   Defaults to `index + 2`, which holds for parse results without blank or dropped rows.
+ *
+ * Returns: `ArrayBuffer` of the XLSX file; exported rows sit at sheet rows `index + 2`.
+ * Signed: EyosiyasJ
+ */
+export function exportToTemplateV4(
+  rows: CanonicalProduct[],
+  errors?: ParsedRowError[],
+  options?: { sourceRows?: number[] }
+): ArrayBuffer {
+  return writeTemplateWorkbook(TEMPLATE_V4_LAYOUT, rows, errors, options);
+}
+
+/**
+ * exportToTemplateV3
+ * Build a Template v3 workbook from canonical rows. Same parameters as `exportToTemplateV4`.
+ * ATC code, storage conditions and controlled-substance values are not written (v3 has no such
+ * columns), and the file re-parses with `W_TEMPLATE_OUTDATED`; prefer `exportToTemplateV4`.
+ * Signed: EyosiyasJ
+ */
+export function exportToTemplateV3(
+  rows: CanonicalProduct[],
+  errors?: ParsedRowError[],
+  options?: { sourceRows?: number[] }
+): ArrayBuffer {
+  return writeTemplateWorkbook(TEMPLATE_V3_LAYOUT, rows, errors, options);
+}
+
+/**
+ * Shared writer: `Products` sheet in `layout.headers` order, `__meta`, error comments and `__errors`.
+ * Signed: EyosiyasJ
+ */
+function writeTemplateWorkbook(
+  layout: TemplateLayout,
+  rows: CanonicalProduct[],
+  errors?: ParsedRowError[],
+  options?: { sourceRows?: number[] }
+): ArrayBuffer {
+  const aoa: Array<Array<string | number>> = [layout.headers.slice(), ...rows.map((r) => toTemplateCells(r, layout.headers))];
+  const ws = XLSX.utils.aoa_to_sheet(aoa);
+
+  // Source row number → exported sheet row number (1-based, header = 1)
+  const outRowBySource = new Map<number, number>();
+  rows.forEach((_, i) => outRowBySource.set(options?.sourceRows?.[i] ?? i + 2, i + 2));
+
+  const errorLines: Array<Array<string | number>> = [["Row", "Column", "Code", "Message"]];
+  const commentsByCell = new Map<string, string[]>();
+  for (const e of errors ?? []) {
+    const outRow = outRowBySource.get(e.row);
+    if (outRow === undefined) continue;
+    const header = FIELD_TO_TEMPLATE_HEADER[e.field];
+    const col = header ? layout.headers.indexOf(header) : -1;
+    errorLines.push([outRow, header ?? e.field, e.code, e.message]);
+    if (col < 0) continue;
+    const ref = XLSX.utils.encode_cell({ r: outRow - 1, c: col });
+    const list = commentsByCell.get(ref) ?? [];
+    list.push(`${e.code}: ${e.message}`);
+    commentsByCell.set(ref, list);
+  }
+  for (const [ref, lines] of commentsByCell) {
+    const cell = (ws[ref] = ws[ref] ?? { t: "s", v: "" });
+    cell.c = [{ a: "MedWay", t: lines.join("\n") }];
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Products");
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ["template_version", layout.version],
+      ["header_checksum", layout.checksum],
+    ]),
+    "__meta"
+  );
+  if (errorLines.length > 1) XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(errorLines), "__errors");
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
@@ -0,0 +1,154 @@
+/**
+ * Module: Formulary Matching
+ * Purpose: Resolve free-text generic names against a caller-supplied drug dictionary so misspellings
+ * ("Paracetemol"), alternative names ("Acetaminophen") and brands in the generic column ("Panadol")
+ * map to one canonical INN.
+ * Matching order (first hit wins):
+ * 1. exact INN, 2. alias, 3. brand → generic, 4. fuzzy (Jaro-Winkler ≥ 0.9 and a small edit distance
+ *    against INNs and aliases; ambiguous near-ties between different INNs are rejected).
+ * Keys: lowercase, punctuation folded, combination separators (`+`, `/`, `&`, `and`) unified, so
+ * `Amoxicillin/Clavulanic Acid` finds `Amoxicillin + Clavulanic Acid`.
+ * Sources: plain entries, JSON (`parseFormularyJson`) or CSV (`parseFormularyCsv`); storage is the caller's concern.
+ * Signed: EyosiyasJ
+ */
+
+import { parseCsvToRows } from "./csv.js";
+import { splitIngredientNames } from "./ingredients.js";
+import { lev } from "./sanitize.js";
+import { jaroWinklerSim } from "./schema.js";
+import type { Formulary, FormularyEntry, FormularyMatch } from "./types.js";
+
+const MIN_FUZZY_SIMILARITY = 0.9;
+const MIN_FUZZY_LENGTH = 5;
+const AMBIGUITY_MARGIN = 0.02;
+
+/**
+ * Normalized lookup key for a generic name (see module header); empty for blank/`NA`.
+ * Signed: EyosiyasJ
+ */
+export function formularyKey(name: unknown): string {
+  return splitIngredientNames(name)
+    .map((p) => p.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim())
+    .filter(Boolean)
+    .join(" + ");
+}
+
+const maxEditsFor = (key: string): number => Math.max(1, Math.floor(key.length / 5));
+
+/**
+ * Build the default in-memory formulary. Lookups are memoized per key, so repeated names in large
+ * files are matched once.
+ * Signed: EyosiyasJ
+ */
+export function createFormulary(entries: FormularyEntry[]): Formulary {
+  const index = new Map<string, { entry: FormularyEntry; method: "exact" | "alias" | "brand" }>();
+  const add = (name: unknown, entry: FormularyEntry, method: "exact" | "alias" | "brand") => {
+    const key = formularyKey(name);
+    // Earlier entries and stronger methods win on key collisions
+    if (key && !index.has(key)) index.set(key, { entry, method });
+  };
+  for (const method of ["exact", "alias", "brand"] as const) {
+    for (const entry of entries) {
+      if (!entry || !String(entry.inn ?? "").trim()) continue;
+      if (method === "exact") add(entry.inn, entry, method);
+      if (method === "alias") (entry.aliases ?? []).forEach((a) => add(a, entry, method));
+      if (method === "brand") (entry.brands ?? []).forEach((b) => add(b, entry, method));
+    }
+  }
+  const fuzzyCandidates = Array.from(index.entries()).filter(([, v]) => v.method !== "brand");
+  const cache = new Map<string, FormularyMatch | null>();
+
+  const toMatch = (entry: FormularyEntry, method: FormularyMatch["method"], confidence: number): FormularyMatch => ({
+    inn: String(entry.inn).trim(),
+    confidence,
+    method,
+    ...(entry.id ? { formulary_id: String(entry.id) } : {}),
+  });
+
+  const lookup = (key: string): FormularyMatch | null => {
+    const hit = index.get(key);
+    if (hit) return toMatch(hit.entry, hit.method, 1);
+    if (key.length < MIN_FUZZY_LENGTH) return null;
+    let best: { entry: FormularyEntry; sim: number } | null = null;
+    let runnerUp: { entry: FormularyEntry; sim: number } | null = null;
+    for (const [candidate, { entry }] of fuzzyCandidates) {
+      if (Math.abs(candidate.length - key.length) > maxEditsFor(key)) continue;
+      const sim = jaroWinklerSim(key, candidate);
+      if (sim < MIN_FUZZY_SIMILARITY || lev(key, candidate) > maxEditsFor(key)) continue;
+      if (!best || sim > best.sim) {
+        if (best && best.entry !== entry) runnerUp = best;
+        best = { entry, sim };
+      } else if (entry !== best.entry && (!runnerUp || sim > runnerUp.sim)) {
+        runnerUp = { entry, sim };
+      }
+    }
+    if (!best) return null;
+    if (runnerUp && best.sim - runnerUp.sim < AMBIGUITY_MARGIN) return null;
+    return toMatch(best.entry, "fuzzy", Math.round(best.sim * 1000) / 1000);
+  };
+
+  return {
+    match(name: string): FormularyMatch | null {
+      const key = formularyKey(name);
+      if (!key) return null;
+      if (!cache.has(key)) cache.set(key, lookup(key));
+      const m = cache.get(key);
+      return m ? { ...m } : null;
+    },
+  };
+}
+
+const splitList = (v: unknown): string[] =>
+  String(v ?? "")
+    .split(/[|;]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+function toEntry(raw: any): FormularyEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const inn = String(raw.inn ?? raw.generic_name ?? raw.generic ?? "").trim();
+  if (!inn) return null;
+  const list = (v: unknown): string[] | undefined => {
+    const out = Array.isArray(v) ? v.map((s) => String(s ?? "").trim()).filter(Boolean) : splitList(v);
+    return out.length ? out : undefined;
+  };
+  const id = String(raw.id ?? raw.formulary_id ?? "").trim();
+  const aliases = list(raw.aliases);
+  const brands = list(raw.brands);
+  return { inn, ...(id ? { id } : {}), ...(aliases ? { aliases } : {}), ...(brands ? { brands } : {}) };
+}
+
+/**
+ * Read formulary entries from JSON text (or an already-parsed value): an array of entries or
+ * `{ entries: [...] }`. `generic_name`/`generic` are accepted for `inn`; aliases/brands may be arrays
+ * or `|`/`;`-separated strings. Records without an INN are skipped; invalid JSON yields `[]`.
+ * Signed: EyosiyasJ
+ */
+export function parseFormularyJson(input: unknown): FormularyEntry[] {
+  let data: any = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      return [];
+    }
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.entries) ? data.entries : [];
+  return list.map(toEntry).filter((e: FormularyEntry | null): e is FormularyEntry => e !== null);
+}
+
+/**
+ * Read formulary entries from CSV text with a header row: `inn` (or `generic_name`/`generic`),
+ * optional `id`, `aliases` and `brands` (`|`/`;`-separated). Header names are case-insensitive.
+ * Signed: EyosiyasJ
+ */
+export function parseFormularyCsv(csvText: string): FormularyEntry[] {
+  const rows = parseCsvToRows(String(csvText ?? "").replace(/^\uFEFF/, ""));
+  return rows
+    .map((r) => {
+      const lower: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(r)) lower[k.trim().toLowerCase()] = v;
+      return toEntry(lower);
+    })
+    .filter((e): e is FormularyEntry => e !== null);
+}
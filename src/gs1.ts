@@ -0,0 +1,230 @@
+/**
+ * Module: GS1 Element Strings
+ * Purpose: Decode scanned GS1 DataMatrix / GS1-128 payloads that warehouse scanners dump into
+ * spreadsheet cells, e.g. `(01)08901234567890(17)271130(10)AB123(21)SN9` or the raw FNC1 form
+ * `]d2010890123456789017271130 10AB123<GS>21SN9` (GS = ASCII 29).
+ * Supported forms:
+ * - Human-readable: every AI in parentheses; spaces between elements are tolerated.
+ * - Raw: AIs concatenated, variable-length values terminated by GS (`\u001d`, or a literal `<GS>`),
+ *   optional symbology prefix (`]d2`, `]C1`, `]Q3`, `]e0`). Without GS only the last element may be
+ *   variable-length; a raw string must decode completely with known AIs.
+ * Extracted: GTIN (AI 01), expiry (AI 17, `YYMMDD` → ISO, day `00` = month end), batch (AI 10),
+ * serial (AI 21). Years are read as 20YY (pharmaceutical expiry dates).
+ * Check digits: shared GS1 mod-10 validator for GTIN-8, UPC-A (12), EAN-13 and GTIN-14, used by
+ * `sanitizeGTIN`, concat GTIN detection and headerless SKU inference.
+ * Signed: EyosiyasJ
+ */
+
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+export interface Gs1Parse {
+  elements: Gs1Element[];
+  gtin?: string;
+  expiry?: string;  // ISO yyyy-MM-dd
+  batch?: string;
+  serial?: string;
+}
+
+/**
+ * Application Identifiers we decode: data length (`fixed`) or maximum length (`max`, variable).
+ */
+const AI_TABLE: Record<string, { fixed?: number; max?: number }> = {
+  "00": { fixed: 18 },
+  "01": { fixed: 14 },
+  "02": { fixed: 14 },
+  "10": { max: 20 },
+  "11": { fixed: 6 },
+  "12": { fixed: 6 },
+  "13": { fixed: 6 },
+  "15": { fixed: 6 },
+  "16": { fixed: 6 },
+  "17": { fixed: 6 },
+  "20": { fixed: 2 },
+  "21": { max: 20 },
+  "22": { max: 20 },
+  "30": { max: 8 },
+  "37": { max: 8 },
+  "240": { max: 30 },
+  "241": { max: 30 },
+  "250": { max: 30 },
+  "251": { max: 30 },
+  "400": { max: 30 },
+  "710": { max: 20 },
+  "711": { max: 20 },
+  "712": { max: 20 },
+  "713": { max: 20 },
+  "714": { max: 20 },
+  "715": { max: 20 },
+  "7003": { fixed: 10 },
+};
+
+/** Valid GTIN lengths: GTIN-8, UPC-A (GTIN-12), EAN-13, GTIN-14. */
+export const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * GS1 mod-10 check digit for a digit string without its check digit (weights 3,1,3,… from the right).
+ * Leading zeros do not change the result, so GTIN-8/12/13 keep their check digit when padded to 14.
+ * Signed: EyosiyasJ
+ */
+export function gs1CheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = body.length - 1, w = 3; i >= 0; i--, w = w === 3 ? 1 : 3) sum += Number(body[i]) * w;
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * True when `value` is digits only, has a GTIN length (8/12/13/14) and a correct check digit.
+ * Signed: EyosiyasJ
+ */
+export function isValidGtin(value: unknown): boolean {
+  const s = String(value ?? "").trim();
+  if (!/^\d+$/.test(s) || !GTIN_LENGTHS.includes(s.length)) return false;
+  return gs1CheckDigit(s.slice(0, -1)) === Number(s[s.length - 1]);
+}
+
+/**
+ * Left-pad a GTIN-8/12/13 digit string to GTIN-14 (check digit unchanged).
+ * Signed: EyosiyasJ
+ */
+export function toGtin14(digits: string): string {
+  return digits.padStart(14, "0");
+}
+
+const GS = "\u001d";
+const SYMBOLOGY_PREFIX_RE = /^\](?:d2|C1|Q3|e0|J1)/;
+const PAREN_FORM_RE = /^(?:\(\d{2,4}\)\s*[^()\s]+\s*)+$/;
+const PAREN_RUN_RE = /(?:\(\d{2,4}\)\s*[^()\s]+\s*)+/;
+
+const normalizeSeparators = (s: string): string => s.replace(/<GS>/gi, GS);
+
+/**
+ * Cheap pre-check for cells that may carry a GS1 payload (parenthesized AI, GS separator,
+ * symbology prefix, or a long digit run starting with AI 01).
+ * Signed: EyosiyasJ
+ */
+export function looksLikeGs1(raw: unknown): boolean {
+  const s = String(raw ?? "");
+  if (s.length < 8) return false;
+  return /\((?:01|17|10|21)\)/.test(s) || s.includes(GS) || /<GS>/i.test(s) || SYMBOLOGY_PREFIX_RE.test(s.trim()) || /(?:^|\s)01\d{14}\S/.test(s);
+}
+
+/**
+ * Parse a complete GS1 element string (either form). Returns `null` when the text is not a
+ * well-formed element string: unknown AI in raw form, wrong fixed length, empty value.
+ * Signed: EyosiyasJ
+ */
+export function parseGs1ElementString(raw: unknown): Gs1Parse | null {
+  const s = normalizeSeparators(String(raw ?? "").trim()).replace(SYMBOLOGY_PREFIX_RE, "");
+  if (!s) return null;
+  const elements = PAREN_FORM_RE.test(s) ? parseParenthesized(s) : parseRaw(s);
+  if (!elements || !elements.length) return null;
+  return summarize(elements);
+}
+
+/**
+ * Locate and decode a GS1 payload inside a longer cell (e.g. `Paracetamol (01)…(10)AB123`).
+ * Accepts the payload when it yields a GTIN or at least two elements, or carries an explicit
+ * GS1 marker (symbology prefix / GS); `match` is the consumed substring.
+ * Signed: EyosiyasJ
+ */
+export function findGs1Payload(raw: unknown): (Gs1Parse & { match: string }) | null {
+  const text = String(raw ?? "");
+  if (!looksLikeGs1(text)) return null;
+  const paren = PAREN_RUN_RE.exec(text);
+  if (paren) {
+    const parsed = parseGs1ElementString(paren[0]);
+    if (parsed && (parsed.gtin || parsed.elements.length >= 2)) return { ...parsed, match: paren[0].trim() };
+  }
+  for (const tok of text.split(/\s+/)) {
+    if (!tok) continue;
+    const marked = SYMBOLOGY_PREFIX_RE.test(tok) || tok.includes(GS) || /<GS>/i.test(tok);
+    if (!marked && !/^01\d{14}/.test(tok)) continue;
+    const parsed = parseGs1ElementString(tok);
+    if (parsed && (marked || parsed.elements.length >= 2)) return { ...parsed, match: tok };
+  }
+  return null;
+}
+
+function parseParenthesized(s: string): Gs1Element[] | null {
+  const out: Gs1Element[] = [];
+  const re = /\((\d{2,4})\)\s*([^()\s]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(s))) {
+    const ai = m[1];
+    const value = m[2].split(GS).join("");
+    const spec = AI_TABLE[ai];
+    if (spec?.fixed !== undefined && value.length !== spec.fixed) return null;
+    if (spec?.max !== undefined && value.length > spec.max) return null;
+    if (!value) return null;
+    out.push({ ai, value });
+  }
+  return out;
+}
+
+function parseRaw(s: string): Gs1Element[] | null {
+  if (/\s/.test(s)) return null;
+  const out: Gs1Element[] = [];
+  let pos = 0;
+  while (pos < s.length) {
+    if (s[pos] === GS) {
+      pos++;
+      continue;
+    }
+    let ai: string | undefined;
+    for (const n of [2, 3, 4]) {
+      const cand = s.slice(pos, pos + n);
+      if (/^\d+$/.test(cand) && AI_TABLE[cand]) {
+        ai = cand;
+        break;
+      }
+    }
+    if (!ai) return null;
+    const spec = AI_TABLE[ai];
+    pos += ai.length;
+    let value: string;
+    if (spec.fixed !== undefined) {
+      value = s.slice(pos, pos + spec.fixed);
+      if (value.length !== spec.fixed || value.includes(GS)) return null;
+      pos += spec.fixed;
+    } else {
+      const end = s.indexOf(GS, pos);
+      value = s.slice(pos, end < 0 ? s.length : end);
+      pos += value.length;
+      if (!value || value.length > (spec.max ?? Infinity)) return null;
+    }
+    out.push({ ai, value });
+  }
+  return out;
+}
+
+/**
+ * GS1 date `YYMMDD` → ISO `20YY-MM-DD`; day `00` means the last day of the month.
+ * Signed: EyosiyasJ
+ */
+function gs1DateToIso(v: string): string | undefined {
+  const m = /^(\d{2})(\d{2})(\d{2})$/.exec(v);
+  if (!m) return undefined;
+  const year = 2000 + Number(m[1]);
+  const month = Number(m[2]);
+  if (month < 1 || month > 12) return undefined;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = m[3] === "00" ? lastDay : Number(m[3]);
+  if (day < 1 || day > lastDay) return undefined;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function summarize(elements: Gs1Element[]): Gs1Parse {
+  const get = (ai: string) => elements.find((e) => e.ai === ai)?.value;
+  const gtin = get("01");
+  const expiry = get("17");
+  return {
+    elements,
+    gtin: gtin && isValidGtin(gtin) ? gtin : undefined,
+    expiry: expiry ? gs1DateToIso(expiry) : undefined,
+    batch: get("10"),
+    serial: get("21"),
+  };
+}
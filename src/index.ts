@@ -1,16 +1,33 @@
 import 'xlsx/dist/cpexcel.js';
-import { parseProductsCore } from "./parseProductsCore.js";
+import { parseProductsCore, createRowPipeline, validateParseOptions, throwIfAborted, PROGRESS_EVERY } from "./parseProductsCore.js";
 import { parseCsvRaw, detectHeaderMode, buildRawRows } from "./csv.js";
 import { detectDelimiterFromText, parseDsvRaw } from "./csv.js";
 import { inferHeaderlessGuesses } from "./schema.js";
-import { readXlsxToRows, readTabularAoA } from "./xlsx.js";
+import { readXlsxToRows, readTabularAoA, readWorkbookSheetsAoA } from "./xlsx.js";
 export { suggestHeaderMappings } from "./semantics.js";
-import type { ParsedImportResult } from "./types.js";
-import type { ParseOptions } from "./types.js";
+import type { ParsedImportResult, ParsedRowError, ParseStreamEvent, SourceSchema } from "./types.js";
+import { ENGINE_VERSION } from "./types.js";
+import { createDuplicateTracker } from "./duplicates.js";
+import { createSummaryTracker, summarizeRows } from "./summary.js";
+import { parseReferenceDate } from "./sanitize.js";
+import { getSourceSchema } from "./schemaRegistry.js";
+import type { ParseOptions, ParseProgressCallback } from "./types.js";
+import type { RawRow } from "./csv.js";
 
 export * from "./types.js";
 export * from "./sanitize.js";
 export { parseProductsCore };
+export { exportToTemplateV4, exportToTemplateV3 } from "./exportTemplate.js";
+export { createMappingProfile, matchMappingProfile, headerFingerprint, dateOrderForProfile } from "./profiles.js";
+export { parseGs1ElementString } from "./gs1.js";
+export { parseStrength } from "./strength.js";
+export { splitIngredientNames, buildIngredients } from "./ingredients.js";
+export { createFormulary, parseFormularyJson, parseFormularyCsv } from "./formulary.js";
+export { createBrandTable, parseBrandTableJson, parseBrandTableCsv } from "./brands.js";
+export { explainUmbrellaCategory, createUmbrellaClassifier, validateUmbrellaRules } from "./category.js";
+export { registerSourceSchema, unregisterSourceSchema, listSourceSchemas } from "./schemaRegistry.js";
+export { explainSourceSchema, diagnoseTemplateDrift } from "./schema.js";
+export { summarizeRows, DEFAULT_NEAR_EXPIRY_DAYS } from "./summary.js";
 
 /**
  * Module: Import Core Entry Point
@@ -29,7 +46,8 @@ export { parseProductsCore };
  * Parameters:
  * - `fileBytes`: `ArrayBuffer` of the uploaded file.
  * - `filename`: original filename (used to detect `.xlsx` vs `.csv`).
- * - `options`: optional `{ mode?: "fast"|"deep", validationMode?: "full"|"errorsOnly"|"none" }`.
+ * - `options`: optional `{ mode?: "fast"|"deep", validationMode?: "full"|"errorsOnly"|"none", onProgress?, signal? }`.
+ *   An aborted `signal` rejects the promise with `signal.reason` or an `AbortError`.
  *
  * Returns: `ParsedImportResult`
  * - `rows`: sanitized canonical products ready for preview/import.
@@ -56,27 +74,37 @@ export async function parseProductsFileFromBuffer(
   filename: string,
   options?: ParseOptions
 ): Promise<ParsedImportResult> {
-  const lower = filename.toLowerCase();
+  const onProgress = options?.onProgress;
+  throwIfAborted(options?.signal);
+  onProgress?.("read", 0, 1);
+  // Multi-sheet mode: parse each selected sheet independently, then merge with per-sheet meta
+  if (options?.sheets) {
+    try {
+      const { sheets, missing, headerMeta } = await readWorkbookSheetsAoA(fileBytes, options.sheets);
+      if (sheets.length || missing.length) {
+        onProgress?.("read", 1, 1);
+        // Option errors are about the call, not a sheet: collected once, before the per-sheet runs
+        const optionErrors = validateParseOptions(options);
+        const parts = sheets.map((sh) => ({
+          name: sh.name,
+          res: parseSheetAoA(sh.rows, headerMeta, filename, options, true),
+        }));
+        return mergeSheetResults(parts, missing, optionErrors, options);
+      }
+    } catch (e) {
+      if (options?.signal?.aborted) throw e;
+      // continue to single-sheet / text fallback
+    }
+  }
   // Try universal workbook/tabular reader first
   try {
     const { rows: aoa, headerMeta } = await readTabularAoA(fileBytes);
     if (aoa && aoa.length) {
-      const headerMode = detectHeaderMode(aoa);
-      const rows = buildRawRows(aoa, headerMode === "none" ? "none" : "headers");
-      const res = parseProductsCore({ rows, headerMeta, filename, options, origin: "workbook" });
-      res.meta.headerMode = headerMode;
-      if (res.meta.headerMode === "none") {
-        const rawNone = buildRawRows(aoa, "none");
-        const { guesses } = inferHeaderlessGuesses(rawNone);
-        res.meta.columnGuesses = guesses.map((g) => ({
-          index: g.index,
-          candidates: g.candidates.map((c) => ({ field: mapCanonToPath(c.canon), confidence: c.score })),
-          sampleValues: g.sample,
-        }));
-      }
-      return res;
+      onProgress?.("read", 1, 1);
+      return parseSheetAoA(aoa, headerMeta, filename, options);
     }
   } catch (e) {
+    if (options?.signal?.aborted) throw e;
     // continue to text fallback
   }
 
@@ -87,37 +115,279 @@ export async function parseProductsFileFromBuffer(
   const headerMode = detectHeaderMode(raw);
   const rowsHeaders = buildRawRows(raw, "headers");
   const rowsNone = buildRawRows(raw, "none");
-  const resHeaders = parseProductsCore({ rows: rowsHeaders, filename, options, origin: "text" });
-  const resNone = parseProductsCore({ rows: rowsNone, filename, options, origin: "text" });
+  onProgress?.("read", 1, 1);
+  // Both attempts report as one run: attempt k covers [k·total, (k+1)·total] of a doubled total
+  const attemptProgress = (k: number): ParseProgressCallback | undefined =>
+    onProgress && ((phase, done, total) => onProgress(phase, k * total + done, 2 * total));
+  const resHeaders = parseProductsCore({ rows: rowsHeaders, filename, options, origin: "text", onProgress: attemptProgress(0) });
+  const resNone = parseProductsCore({ rows: rowsNone, filename, options, origin: "text", onProgress: attemptProgress(1) });
   const pickNone = headerMode === "none" || (resHeaders.meta.parsedRows === 0 && resNone.meta.parsedRows > resHeaders.meta.parsedRows);
   const result = pickNone ? resNone : resHeaders;
   result.meta.headerMode = pickNone ? "none" : headerMode;
   if (result.meta.headerMode === "none") {
-    const { guesses } = inferHeaderlessGuesses(rowsNone);
-    result.meta.columnGuesses = guesses.map((g) => ({
-      index: g.index,
-      candidates: g.candidates.map((c) => ({ field: mapCanonToPath(c.canon), confidence: c.score })),
-      sampleValues: g.sample,
-    }));
+    result.meta.columnGuesses = buildColumnGuesses(rowsNone);
   }
   // Expose required fields contract in meta so frontends can align behavior
-  // Schema-aware: for POS-style concat imports, use best-effort (generic_name only)
-  result.meta.requiredFields =
-    result.meta.sourceSchema === "concat_items"
-      ? ["product.generic_name"]
-      : [
-          "product.generic_name",
-          "product.strength",
-          "product.form",
-          "product.category",
-          "batch.expiry_date",
-          "pkg.pieces_per_unit",
-          "identity.coo",
-          "batch.on_hand",
-        ];
+  result.meta.requiredFields = requiredFieldsForSchema(result.meta.sourceSchema);
   return result;
 }
 
+/**
+ * Parse one sheet's array-of-arrays: header detection, `parseProductsCore`, headerless column guesses.
+ * `skipOptionErrors`: the multi-sheet caller reports option errors once itself.
+ * Signed: EyosiyasJ
+ */
+function parseSheetAoA(
+  aoa: string[][],
+  headerMeta: { templateVersion?: string; headerChecksum?: string } | undefined,
+  filename: string,
+  options?: ParseOptions,
+  skipOptionErrors?: boolean
+): ParsedImportResult {
+  const headerMode = detectHeaderMode(aoa);
+  const rows = buildRawRows(aoa, headerMode === "none" ? "none" : "headers");
+  const res = parseProductsCore({ rows, headerMeta, filename, options, origin: "workbook", skipOptionErrors });
+  res.meta.headerMode = headerMode;
+  if (res.meta.headerMode === "none") {
+    res.meta.columnGuesses = buildColumnGuesses(buildRawRows(aoa, "none"));
+  }
+  return res;
+}
+
+/**
+ * Merge per-sheet results: rows concatenated in sheet order, errors tagged with `sheet` (option errors from
+ * `validateParseOptions` listed once, untagged, and not counted per sheet), `meta.summary` recomputed over
+ * all rows (distinct products span sheets).
+ * Requested sheets that do not exist yield `E_SHEET_NOT_FOUND`.
+ * Signed: EyosiyasJ
+ */
+function mergeSheetResults(
+  parts: Array<{ name: string; res: ParsedImportResult }>,
+  missing: string[],
+  optionErrors: ParsedRowError[],
+  options?: ParseOptions
+): ParsedImportResult {
+  const rows = parts.flatMap((p) => p.res.rows);
+  const errors: ParsedRowError[] = [...missing.map(sheetNotFoundError), ...optionErrors];
+  for (const p of parts) {
+    for (const e of p.res.errors) errors.push({ ...e, sheet: p.name });
+  }
+  const meta = mergeSheetMeta(parts.map((p) => ({ name: p.name, meta: p.res.meta, errorCount: p.res.errors.length })));
+  meta.summary = summarizeRows(rows, {
+    nearExpiryDays: options?.nearExpiryDays,
+    referenceDate: parseReferenceDate(options?.referenceDate),
+  });
+  return { rows, errors, meta };
+}
+
+/**
+ * Merged multi-sheet meta: first sheet's meta with `totalRows`/`parsedRows` summed and a `sheets` breakdown.
+ * Signed: EyosiyasJ
+ */
+function mergeSheetMeta(
+  parts: Array<{ name: string; meta: ParsedImportResult["meta"]; errorCount: number }>
+): ParsedImportResult["meta"] {
+  const base: ParsedImportResult["meta"] = parts.length
+    ? { ...parts[0].meta }
+    : { sourceSchema: "unknown", totalRows: 0, parsedRows: 0, engineVersion: ENGINE_VERSION };
+  base.totalRows = parts.reduce((n, p) => n + p.meta.totalRows, 0);
+  if (parts.some((p) => p.meta.duplicateGroups)) {
+    base.duplicateGroups = parts.flatMap((p) => (p.meta.duplicateGroups ?? []).map((g) => ({ ...g, sheet: p.name })));
+  }
+  base.parsedRows = parts.reduce((n, p) => n + p.meta.parsedRows, 0);
+  if (parts.some((p) => p.meta.categoryExplanations)) {
+    base.categoryExplanations = parts.flatMap((p) => (p.meta.categoryExplanations ?? []).map((x) => ({ ...x, sheet: p.name })));
+  }
+  base.sheets = parts.map((p) => ({
+    name: p.name,
+    sourceSchema: p.meta.sourceSchema,
+    headerMode: p.meta.headerMode,
+    totalRows: p.meta.totalRows,
+    parsedRows: p.meta.parsedRows,
+    errorCount: p.errorCount,
+  }));
+  return base;
+}
+
+function sheetNotFoundError(name: string): ParsedRowError {
+  return { row: 0, field: "sheet", code: "E_SHEET_NOT_FOUND", message: `Sheet '${name}' not found in workbook`, sheet: name };
+}
+
+/**
+ * parseProductsStream
+ * Incremental counterpart of `parseProductsFileFromBuffer` for large files.
+ * - Detection (schema, headerless assignment, concat/dirty columns) runs once on the leading sample
+ *   (`computeSampleSize`), exactly as in the buffered path.
+ * - The source is read whole first: the workbook (or text) is decoded into an array-of-arrays before the
+ *   first event, so raw cells for the entire file sit in memory.
+ * - Rows are then mapped and sanitized lazily: each `next()` processes only as many raw rows as needed
+ *   to emit the next event, so consumers can render previews or stop early without paying to sanitize the whole file.
+ * - Yields `{ type: "row" }` and `{ type: "error" }` events in row order, then one final `{ type: "meta" }`.
+ * - `duplicatePolicy: "merge"` is applied as `"report"` (rows already yielded cannot be amended).
+ * - Text fallback: header mode comes from `detectHeaderMode` alone (no dual headers/headerless parse,
+ *   which would require a full pass before the first row).
+ * - `onProgress` and `signal` behave as in the buffered path: `read`, then per segment `detect` and
+ *   `map`/`sanitize` ticks every `PROGRESS_EVERY` rows; the signal is checked before every row, so the
+ *   `next()` after an abort throws.
+ * Signed: EyosiyasJ
+ */
+export async function* parseProductsStream(
+  source: ArrayBuffer,
+  filename: string,
+  options?: ParseOptions
+): AsyncGenerator<ParseStreamEvent, void, undefined> {
+  const onProgress = options?.onProgress;
+  const signal = options?.signal;
+  throwIfAborted(signal);
+  onProgress?.("read", 0, 1);
+  type Segment = {
+    name?: string;
+    rows: RawRow[];
+    headerMode: "headers" | "none" | "untrusted";
+    noneRows: () => RawRow[];
+    origin: "workbook" | "text";
+  };
+  const fromAoA = (aoa: string[][], origin: "workbook" | "text", name?: string): Segment => {
+    const headerMode = detectHeaderMode(aoa);
+    return {
+      name,
+      rows: buildRawRows(aoa, headerMode === "none" ? "none" : "headers"),
+      headerMode,
+      noneRows: () => buildRawRows(aoa, "none"),
+      origin,
+    };
+  };
+  let segments: Segment[] = [];
+  let missing: string[] = [];
+  let headerMeta: { templateVersion?: string; headerChecksum?: string } | undefined;
+  if (options?.sheets) {
+    try {
+      const wb = await readWorkbookSheetsAoA(source, options.sheets);
+      headerMeta = wb.headerMeta;
+      missing = wb.missing;
+      segments = wb.sheets.map((sh) => fromAoA(sh.rows, "workbook", sh.name));
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // continue to single-sheet / text fallback
+    }
+  }
+  if (!segments.length && !missing.length) {
+    try {
+      const tab = await readTabularAoA(source);
+      if (tab.rows && tab.rows.length) {
+        headerMeta = tab.headerMeta;
+        segments = [fromAoA(tab.rows, "workbook")];
+      }
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // continue to text fallback
+    }
+  }
+  if (!segments.length && !missing.length) {
+    const text = new TextDecoder("utf-8").decode(source);
+    segments = [fromAoA(parseDsvRaw(text, detectDelimiterFromText(text)), "text")];
+  }
+
+  throwIfAborted(signal);
+  onProgress?.("read", 1, 1);
+  for (const name of missing) yield { type: "error", error: sheetNotFoundError(name) };
+  // Option errors are reported once, untagged; the segment pipelines skip them
+  for (const error of validateParseOptions(options)) yield { type: "error", error };
+  const streamPolicy = options?.duplicatePolicy === "merge" ? "report" : options?.duplicatePolicy;
+  const parts: Array<{ name: string; meta: ParsedImportResult["meta"]; errorCount: number }> = [];
+  const summary = createSummaryTracker({
+    nearExpiryDays: options?.nearExpiryDays,
+    referenceDate: parseReferenceDate(options?.referenceDate),
+  });
+  for (const seg of segments) {
+    const tag = <T extends ParsedRowError>(e: T): T => (seg.name !== undefined ? { ...e, sheet: seg.name } : e);
+    throwIfAborted(signal);
+    onProgress?.("detect", 0, 1);
+    const pipeline = createRowPipeline({ rows: seg.rows, headerMeta, filename, options, origin: seg.origin, skipOptionErrors: true });
+    onProgress?.("detect", 1, 1);
+    const total = pipeline.totalRows;
+    let errorCount = pipeline.fileErrors.length;
+    for (const error of pipeline.fileErrors) yield { type: "error", error: tag(error) };
+    let parsedRows = 0;
+    // Rows already yielded cannot be amended, so `merge` degrades to `report` when streaming
+    const dupes = streamPolicy ? createDuplicateTracker(streamPolicy) : undefined;
+    for (let i = 0; i < total; i++) {
+      // The consumer may abort between yields, so check every row (cheap), not only at progress ticks
+      throwIfAborted(signal);
+      const out = pipeline.processRow(i);
+      if ((i + 1) % PROGRESS_EVERY === 0 || i + 1 === total) {
+        onProgress?.("map", i + 1, total);
+        onProgress?.("sanitize", i + 1, total);
+      }
+      if (!out) continue;
+      const rowErrors = [...out.errors];
+      let keep = true;
+      if (out.row && dupes) {
+        const d = dupes.add(out.row, i + 2);
+        if ((options?.validationMode ?? "full") === "full") rowErrors.push(...d.errors);
+        keep = d.keep;
+      }
+      errorCount += rowErrors.length;
+      for (const error of rowErrors) yield { type: "error", error: tag(error) };
+      if (out.row && keep) {
+        parsedRows++;
+        summary.add(out.row);
+        yield seg.name !== undefined
+          ? { type: "row", row: out.row, rowIndex: i + 2, sheet: seg.name }
+          : { type: "row", row: out.row, rowIndex: i + 2 };
+      }
+    }
+    const meta = pipeline.buildMeta(parsedRows);
+    meta.headerMode = seg.headerMode;
+    if (seg.headerMode === "none") meta.columnGuesses = buildColumnGuesses(seg.noneRows());
+    if (seg.origin === "text") meta.requiredFields = requiredFieldsForSchema(meta.sourceSchema);
+    if (dupes) {
+      meta.duplicatePolicy = streamPolicy;
+      meta.duplicateGroups = dupes.groups();
+    }
+    parts.push({ name: seg.name ?? "", meta, errorCount });
+  }
+
+  const meta = options?.sheets ? mergeSheetMeta(parts) : parts[0].meta;
+  meta.summary = summary.result();
+  yield { type: "meta", meta };
+}
+
+/**
+ * Build headerless column guesses for meta from `col_N` keyed rows.
+ * Signed: EyosiyasJ
+ */
+function buildColumnGuesses(rowsNone: RawRow[]): NonNullable<ParsedImportResult["meta"]["columnGuesses"]> {
+  const { guesses } = inferHeaderlessGuesses(rowsNone);
+  return guesses.map((g) => ({
+    index: g.index,
+    candidates: g.candidates.map((c) => ({ field: mapCanonToPath(c.canon), confidence: c.score })),
+    sampleValues: g.sample,
+  }));
+}
+
+/**
+ * Required fields contract for meta.
+ * Schema-aware: for POS-style concat imports, use best-effort (generic_name only).
+ * Signed: EyosiyasJ
+ */
+function requiredFieldsForSchema(schema: SourceSchema): string[] {
+  const registered = getSourceSchema(schema);
+  if (registered?.requiredFields) return registered.requiredFields.slice();
+  return schema === "concat_items"
+    ? ["product.generic_name"]
+    : [
+        "product.generic_name",
+        "product.strength",
+        "product.form",
+        "product.category",
+        "batch.expiry_date",
+        "pkg.pieces_per_unit",
+        "identity.coo",
+        "batch.on_hand",
+      ];
+}
+
 /**
  * Map canonical flat keys to nested field paths used in meta and UI.
  * Includes packaging mapping to `pkg.pieces_per_unit`.
@@ -139,6 +409,7 @@ export async function parseProductsFileFromBuffer(
       case "coo": return "identity.coo";
       case "sku": return "identity.sku";
       case "cat": return "identity.cat";
+      case "atc_code": return "identity.atc_code";
       case "frm": return "identity.frm";
       case "pkg": return "identity.pkg";
       case "purchase_unit": return "identity.purchase_unit";
@@ -0,0 +1,35 @@
+/**
+ * Module: Active Ingredients
+ * Purpose: Split combination generic names (`Amoxicillin + Clavulanic Acid`, `Artemether/Lumefantrine`)
+ * into an ingredient list and pair each ingredient with its structured strength component.
+ * Separators: `+`, `/`, `&` and the word `and`; spaces alone never split, so multi-word INNs such as
+ * `Sodium Chloride` stay whole.
+ * Pairing: by position when the ingredient and component counts match; otherwise names only.
+ * Signed: EyosiyasJ
+ */
+
+import type { ParsedStrength, ProductIngredient } from "./types.js";
+
+const INGREDIENT_SEPARATOR_RE = /\s*[+\/&]\s*|\s+and\s+/i;
+
+/**
+ * Ingredient names in source order; a single-element list for mono products, empty for blank/`NA`.
+ * Signed: EyosiyasJ
+ */
+export function splitIngredientNames(genericName: unknown): string[] {
+  const s = String(genericName ?? "").replace(/\s+/g, " ").trim();
+  if (!s || /^n\/?a$/i.test(s)) return [];
+  const parts = s.split(INGREDIENT_SEPARATOR_RE).map((p) => p.trim()).filter((p) => /[a-z]/i.test(p));
+  return parts.length ? parts : [s];
+}
+
+/**
+ * Build `product.ingredients` from the generic name and parsed strength.
+ * Signed: EyosiyasJ
+ */
+export function buildIngredients(genericName: unknown, strength?: ParsedStrength | null): ProductIngredient[] {
+  const names = splitIngredientNames(genericName);
+  const components = strength?.components ?? [];
+  const paired = components.length === names.length;
+  return names.map((name, i) => (paired ? { name, strength: components[i] } : { name }));
+}
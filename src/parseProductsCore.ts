@@ -1,20 +1,39 @@
 import { RawRow } from "./csv.js";
 import {
-  detectSourceSchema,
+  explainSourceSchema,
   mapRawRowToCanonical,
   inferHeaderlessAssignments,
   inferConcatenatedColumns,
+  resolveColumnOverrides,
+  mergeHeaderlessOverrides,
+  describeColumnMapping,
+  suggestGenericHeaderHints,
+  templateForSchema,
+  findTemplateNearMatch,
+  diagnoseTemplateDrift,
+  templateDriftOverrides,
+  headersChecksum,
+  CURRENT_TEMPLATE_VERSION,
 } from "./schema.js";
-import { sanitizeCanonicalRow } from "./sanitize.js";
+import { sanitizeCanonicalRow, detectDateOrder, parseReferenceDate, type SanitizeOptions } from "./sanitize.js";
 import { decomposeConcatenatedCell, splitNameGenericStrengthForm } from "./concatDecompose.js";
-import { suggestHeaderMappings, type CanonicalKey } from "./semantics.js";
+import { type CanonicalKey } from "./semantics.js";
+import { matchMappingProfile, dateOrderForProfile } from "./profiles.js";
+import { createDuplicateTracker } from "./duplicates.js";
+import { summarizeRows } from "./summary.js";
+import { looksLikeGs1, findGs1Payload } from "./gs1.js";
+import { createFormulary } from "./formulary.js";
+import { createBrandTable } from "./brands.js";
+import { createUmbrellaClassifier } from "./category.js";
+import { getSourceSchema } from "./schemaRegistry.js";
 import {
   CanonicalProduct,
   ParsedImportResult,
   ParsedRowError,
   SourceSchema,
+  TemplateDrift,
 } from "./types.js";
-import type { AnalysisMode, ParseOptions } from "./types.js";
+import type { AnalysisMode, ParseOptions, ParseProgressCallback, ValidationMode } from "./types.js";
 import { ENGINE_VERSION } from "./types.js";
 
 interface ParseProductsCoreInput {
@@ -26,6 +45,75 @@ interface ParseProductsCoreInput {
   };
   options?: ParseOptions;
   origin?: "workbook" | "text";
+  /** Progress listener override (text fallback rescales its two attempts); defaults to `options.onProgress`. */
+  onProgress?: ParseProgressCallback;
+  /** Option errors (`validateParseOptions`) were already reported by the caller (multi-sheet, stream); leave them out of `fileErrors`. */
+  skipOptionErrors?: boolean;
+}
+
+/** Row interval between `map`/`sanitize` progress reports and abort checks. */
+export const PROGRESS_EVERY = 500;
+
+/**
+ * Share of a template's columns a header row must carry, without a `__meta` declaration, before a checksum
+ * miss is reported as `W_TEMPLATE_MISMATCH` (generic CSVs reuse many template header names).
+ */
+const TEMPLATE_MISMATCH_MIN_RATIO = 0.8;
+
+/**
+ * File-level errors under `validationMode`, by the same rule as row errors: `none` reports nothing and
+ * `errorsOnly` drops warnings.
+ * Signed: EyosiyasJ
+ */
+export function filterFileErrors(errors: ParsedRowError[], validationMode: ValidationMode = "full"): ParsedRowError[] {
+  if (validationMode === "none") return [];
+  return validationMode === "errorsOnly" ? errors.filter((e) => !e.code.startsWith("W_")) : errors;
+}
+
+/**
+ * Errors about the caller's options rather than a sheet's content, filtered by `validationMode`:
+ * `columnMapping` targets that are not canonical paths (`E_COLUMN_MAPPING_TARGET`), an invalid
+ * `referenceDate` (`E_REFERENCE_DATE`) and `umbrellaClassifier` rule issues. Reported at row 1, untagged;
+ * a multi-sheet parse or stream reports them once and runs its pipelines with `skipOptionErrors`.
+ * Signed: EyosiyasJ
+ */
+export function validateParseOptions(options?: ParseOptions): ParsedRowError[] {
+  const errors: ParsedRowError[] = resolveColumnOverrides(options?.columnMapping).invalid.map(({ column, target }) => ({
+    row: 1,
+    field: column,
+    code: "E_COLUMN_MAPPING_TARGET",
+    message: `columnMapping target '${target}' for column '${column}' is not a canonical field path`,
+  }));
+  if (options?.referenceDate !== undefined && !parseReferenceDate(options.referenceDate)) {
+    errors.push({
+      row: 1,
+      field: "referenceDate",
+      code: "E_REFERENCE_DATE",
+      message: `referenceDate '${String(options.referenceDate)}' is not a valid date; expiry is checked against today`,
+    });
+  }
+  const umbrella = Array.isArray(options?.umbrellaClassifier)
+    ? createUmbrellaClassifier(options!.umbrellaClassifier)
+    : options?.umbrellaClassifier;
+  for (const issue of umbrella?.issues ?? []) {
+    errors.push({ row: 1, field: `umbrellaClassifier.${issue.ruleId}`, code: issue.code, message: issue.message });
+  }
+  return filterFileErrors(errors, options?.validationMode);
+}
+
+/** Headers of columns holding scanned barcodes, whose `identity.sku` values are GTIN-validated. */
+const BARCODE_HEADER_RE = /barcode|gtin|\bean\b|\bupc\b/i;
+
+/**
+ * Throw `signal.reason` (or an `AbortError`) when the caller aborted the parse.
+ * Signed: EyosiyasJ
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (!signal?.aborted) return;
+  if (signal.reason !== undefined) throw signal.reason;
+  const e = new Error("Parse aborted");
+  e.name = "AbortError";
+  throw e;
 }
 
 /**
@@ -52,11 +140,92 @@ interface ParseProductsCoreInput {
 /**
  * Parse core with analysis mode affecting sampling for detection only.
  * Per-row splitting/decomposition/validation remains identical.
+ * Progress: `options.onProgress` gets `detect`, then `map`/`sanitize` every `PROGRESS_EVERY` rows.
+ * Abort: `options.signal` is checked at the same ticks; an aborted parse throws (see `throwIfAborted`).
  * Signed: EyosiyasJ
  */
 export function parseProductsCore(
   input: ParseProductsCoreInput
 ): ParsedImportResult {
+  const report = input.onProgress ?? input.options?.onProgress;
+  const signal = input.options?.signal;
+  throwIfAborted(signal);
+  report?.("detect", 0, 1);
+  const pipeline = createRowPipeline(input);
+  report?.("detect", 1, 1);
+  const total = pipeline.totalRows;
+  // Single pass (no buffer of mapped rows): each row is mapped then sanitized, and both phases tick together
+  const tick = (done: number) => {
+    if (done % PROGRESS_EVERY !== 0 && done !== total) return;
+    throwIfAborted(signal);
+    report?.("map", done, total);
+    report?.("sanitize", done, total);
+  };
+  const canonicalRows: CanonicalProduct[] = [];
+  const errors: ParsedRowError[] = [...pipeline.fileErrors];
+  let parsedRows = 0;
+  // Post-sanitize duplicate pass (product identity + batch), opt-in via `duplicatePolicy`
+  const policy = input.options?.duplicatePolicy;
+  const dupes = policy ? createDuplicateTracker(policy) : undefined;
+  // Duplicate notices are warnings: reported under `full` only, like other row warnings
+  const reportDupes = (input.options?.validationMode ?? "full") === "full";
+  for (let i = 0; i < total; i++) {
+    const mapped = pipeline.mapRow(i);
+    tick(i + 1);
+    if (!mapped) continue;
+    const out = pipeline.sanitizeRow(mapped, i);
+    errors.push(...out.errors);
+    if (out.row) {
+      if (dupes) {
+        const d = dupes.add(out.row, i + 2);
+        if (reportDupes) errors.push(...d.errors);
+        if (!d.keep) continue;
+      }
+      canonicalRows.push(out.row);
+      parsedRows++;
+    }
+  }
+  const meta = pipeline.buildMeta(parsedRows);
+  if (dupes) {
+    meta.duplicatePolicy = policy;
+    meta.duplicateGroups = dupes.groups();
+  }
+  meta.summary = summarizeRows(canonicalRows, {
+    nearExpiryDays: input.options?.nearExpiryDays,
+    referenceDate: parseReferenceDate(input.options?.referenceDate),
+  });
+  return { rows: canonicalRows, errors, meta };
+}
+
+/**
+ * Row pipeline produced by `createRowPipeline`.
+ * - `processRow(i)`: map, decompose and sanitize raw row `i`; `null` for blank rows.
+ * - `mapRow(i)` / `sanitizeRow(mapped, i)`: the two halves of `processRow`, called in turn per row by
+ *   `parseProductsCore` (single pass; `map` and `sanitize` progress tick together).
+ * - `buildMeta(parsedRows)`: detection meta plus counters for the rows processed so far (and, with
+ *   `explainCategories`, the umbrella explanations of the rows sanitized so far).
+ * - `fileErrors`: file-level issues found during detection (reported at row 1, the header row), already
+ *   filtered by `validationMode` (`filterFileErrors`).
+ * Signed: EyosiyasJ
+ */
+export interface RowPipeline {
+  totalRows: number;
+  fileErrors: ParsedRowError[];
+  processRow(index: number): { row: CanonicalProduct | null; errors: ParsedRowError[] } | null;
+  mapRow(index: number): Partial<CanonicalProduct> | null;
+  sanitizeRow(mapped: Partial<CanonicalProduct>, index: number): { row: CanonicalProduct | null; errors: ParsedRowError[] };
+  buildMeta(parsedRows: number): ParsedImportResult["meta"];
+}
+
+/**
+ * Run detection (schema, headerless assignment, concat/dirty columns, concat mode) once on the
+ * leading sample and return a per-row processor. Shared by `parseProductsCore` (eager) and
+ * `parseProductsStream` (lazy) so both paths produce identical rows.
+ * Signed: EyosiyasJ
+ */
+export function createRowPipeline(
+  input: ParseProductsCoreInput
+): RowPipeline {
   const { rows, headerMeta } = input;
   const mode: AnalysisMode = (input.options?.mode ?? "fast");
   const computeSampleSize = (total: number, m: AnalysisMode): number => {
@@ -67,12 +236,101 @@ export function parseProductsCore(
   const sampleSize = computeSampleSize(rows.length, mode);
   const sampleRows = rows.slice(0, sampleSize);
 
-  const sourceSchema: SourceSchema = detectSourceSchema(rows, headerMeta, input.origin);
+  const schemaDetection = explainSourceSchema(rows, headerMeta, input.origin);
+  const sourceSchema: SourceSchema = schemaDetection.schema;
+  const registeredSchema = getSourceSchema(sourceSchema);
 
   // Headerless detection via synthetic column keys
   const firstKeys = Object.keys(rows[0] || {});
   const isHeaderless = firstKeys.length > 0 && firstKeys.every((k) => /^col_\d+$/.test(k));
-  const headerlessAssign = isHeaderless ? inferHeaderlessAssignments(sampleRows) : undefined;
+  // Supplier profile: pin the saved mapping; explicit caller entries still win.
+  // Fixed layouts (template/POS) only take profile entries that differ from their built-in mapping.
+  const profileMatch = matchMappingProfile(firstKeys, input.options?.profiles, input.options?.profileMatchThreshold);
+  let requestedMapping = input.options?.columnMapping;
+  if (profileMatch) {
+    let fromProfile = profileMatch.columnMapping;
+    if (templateForSchema(sourceSchema) || sourceSchema === "concat_items" || sourceSchema === "legacy_items" || registeredSchema) {
+      const builtIn = describeColumnMapping(rows, sourceSchema);
+      fromProfile = Object.fromEntries(Object.entries(fromProfile).filter(([k, v]) => v !== null && builtIn[k] !== v));
+    }
+    requestedMapping = { ...fromProfile, ...(requestedMapping ?? {}) };
+  }
+  const { overrides: columnOverrides, invalid: invalidOverrides } = resolveColumnOverrides(requestedMapping);
+  const headerlessAssign = isHeaderless
+    ? mergeHeaderlessOverrides(inferHeaderlessAssignments(sampleRows), columnOverrides)
+    : undefined;
+  const fileErrors: ParsedRowError[] = input.skipOptionErrors ? [] : validateParseOptions(input.options);
+  // Caller targets are option errors (above); only targets coming from a matched profile are checked here
+  for (const { column, target } of invalidOverrides) {
+    if (input.options?.columnMapping && column in input.options.columnMapping) continue;
+    fileErrors.push({
+      row: 1,
+      field: column,
+      code: "E_COLUMN_MAPPING_TARGET",
+      message: `columnMapping target '${target}' for column '${column}' is not a canonical field path`,
+    });
+  }
+  for (const { column, target } of resolveColumnOverrides(registeredSchema?.columns).invalid) {
+    fileErrors.push({
+      row: 1,
+      field: column,
+      code: "E_COLUMN_MAPPING_TARGET",
+      message: `schema '${sourceSchema}' maps column '${column}' to '${target}', which is not a canonical field path`,
+    });
+  }
+  // Template versions: older templates still parse but are flagged; a header row that almost matches a
+  // template (or declares one in __meta) says which one instead of silently falling back to generic CSV
+  const template = templateForSchema(sourceSchema);
+  if (template && template.version !== CURRENT_TEMPLATE_VERSION) {
+    fileErrors.push({
+      row: 1,
+      field: "template",
+      code: "W_TEMPLATE_OUTDATED",
+      message: `file uses ${template.version}; ${CURRENT_TEMPLATE_VERSION} adds ATC code, storage conditions and controlled-substance columns`,
+    });
+  }
+  const templateNearMatch =
+    (sourceSchema === "csv_generic" || sourceSchema === "unknown") && !isHeaderless
+      ? findTemplateNearMatch(firstKeys, headerMeta)
+      : undefined;
+  const templateDrift =
+    templateNearMatch || (template && headersChecksum(firstKeys) !== template.checksum)
+      ? diagnoseTemplateDrift(firstKeys, headerMeta)
+      : undefined;
+  const driftSummary = (d: TemplateDrift): string =>
+    [
+      d.renamed.length ? `renamed: ${d.renamed.map((r) => `${r.from} → ${r.to}`).join(", ")}` : "",
+      d.missing.length ? `missing: ${d.missing.join(", ")}` : "",
+      d.extra.length ? `extra: ${d.extra.join(", ")}` : "",
+      d.reordered ? "columns reordered" : "",
+    ].filter(Boolean).join("; ");
+  if (templateNearMatch) {
+    const { version, matchedHeaders, totalHeaders, declared } = templateNearMatch;
+    // Without a `__meta` declaration, only a header row carrying most of a template signals template intent
+    if (declared || matchedHeaders / totalHeaders >= TEMPLATE_MISMATCH_MIN_RATIO) {
+      fileErrors.push({
+        row: 1,
+        field: "template",
+        code: "W_TEMPLATE_MISMATCH",
+        message:
+          `headers ${declared ? "declared as" : "resemble"} ${version} (${matchedHeaders}/${totalHeaders} template columns) ` +
+          `but the header checksum does not match; parsed as ${sourceSchema}` +
+          (templateDrift ? `; ${driftSummary(templateDrift)}` : ""),
+      });
+    }
+  } else if (templateDrift?.cosmetic && (input.options?.validationMode ?? "full") === "full") {
+    fileErrors.push({
+      row: 1,
+      field: "template",
+      code: "W_TEMPLATE_DRIFT",
+      message: `headers differ from ${templateDrift.version} only cosmetically (${driftSummary(templateDrift)}); template mapping kept`,
+    });
+  }
+  // Cosmetic drift keeps the template mapper; renamed headers are routed like caller overrides (caller entries win)
+  const mappingOverrides =
+    templateDrift?.cosmetic && templateDrift.schema === sourceSchema
+      ? { ...templateDriftOverrides(templateDrift), ...(columnOverrides ?? {}) }
+      : columnOverrides;
   const concatColsSample = inferConcatenatedColumns(sampleRows);
   const DOSE_UNIT_RE = /(mg|mcg|g|ml|iu|%)/i;
   const FORM_WORDS = new Set([
@@ -140,11 +398,16 @@ export function parseProductsCore(
     if (anyDoseCell) return "name_only";
     return "none";
   };
-  const concatMode = detectConcatMode();
-  const headerHints = suggestHeaderMappings(firstKeys, rows.slice(0, Math.min(rows.length, 25)));
+  const concatMode = profileMatch?.profile.concatMode ?? detectConcatMode();
+  // Shared by row mapping, the remainder paths and `describeColumnMapping`
+  const headerHints = suggestGenericHeaderHints(rows);
   const columnRemainderPaths = new Map<string, string | undefined>();
   for (const key of firstKeys) {
     let path: string | undefined;
+    if (columnOverrides && Object.prototype.hasOwnProperty.call(columnOverrides, key)) {
+      columnRemainderPaths.set(key, flatKeyToCanonicalPath(columnOverrides[key] ?? undefined));
+      continue;
+    }
     if (headerlessAssign?.[key]) {
       path = flatKeyToCanonicalPath(headerlessAssign[key]);
     } else {
@@ -165,15 +428,51 @@ export function parseProductsCore(
     columnRemainderPaths.set(key, path);
   }
 
-  const canonicalRows: CanonicalProduct[] = [];
-  const errors: ParsedRowError[] = [];
-  let parsedRows = 0;
+  // Expiry date order: explicit option > profile > auto-detection on the sample > DMY default
+  const dateOrder = ((): NonNullable<ParsedImportResult["meta"]["dateOrder"]> => {
+    const opt = input.options?.dateOrder;
+    if (opt && opt !== "auto") return { order: opt, source: "option" };
+    const fromProfile = profileMatch ? dateOrderForProfile(profileMatch.profile) : undefined;
+    if (fromProfile) return { order: fromProfile, source: "profile" };
+    if (opt === "auto") {
+      const values = sampleRows.map(
+        (r, idx) => mapRawRowToCanonical(r, idx + 2, sourceSchema, headerlessAssign, mappingOverrides, headerHints)?.batch?.expiry_date
+      );
+      return detectDateOrder(values);
+    }
+    return { order: "DMY", source: "default" };
+  })();
+  const columnMapping = describeColumnMapping(rows, sourceSchema, headerlessAssign, mappingOverrides, headerHints);
+  const columnMappingOverrides = columnOverrides ? firstKeys.filter((k) => k in columnOverrides) : undefined;
+  // GTIN check digits apply only when `identity.sku` comes from a barcode column (headerless SKU columns
+  // are inferred from valid GTINs); serial / SKU columns hold free-form codes
+  const skuIsGtin = firstKeys.some((k) => columnMapping[k] === "identity.sku" && (isHeaderless || BARCODE_HEADER_RE.test(k)));
+  const sanitizeOptions: SanitizeOptions = {
+    dateOrder: dateOrder.order,
+    flagAmbiguousDates: input.options?.dateOrder === "auto" && (dateOrder.source === "detected" || dateOrder.source === "default"),
+    normalizeStrengthUnits: input.options?.normalizeStrengthUnits,
+    gtin14: input.options?.gtin14,
+    skuIsGtin,
+    formulary: Array.isArray(input.options?.formulary) ? createFormulary(input.options!.formulary) : input.options?.formulary,
+    brandTable: Array.isArray(input.options?.brandTable) ? createBrandTable(input.options!.brandTable) : input.options?.brandTable,
+    umbrellaClassifier: Array.isArray(input.options?.umbrellaClassifier)
+      ? createUmbrellaClassifier(input.options!.umbrellaClassifier)
+      : input.options?.umbrellaClassifier,
+    explainCategories: input.options?.explainCategories,
+    requiredFields: registeredSchema?.requiredFields,
+    nearExpiryDays: input.options?.nearExpiryDays,
+    referenceDate: parseReferenceDate(input.options?.referenceDate),
+  };
+  const categoryExplanations: NonNullable<ParsedImportResult["meta"]["categoryExplanations"]> = [];
+
   const decomposedSet = new Set<number>();
+  // Rows whose `identity.sku` was filled from a GS1 payload's GTIN (validated even without a barcode column)
+  const gs1GtinRows = new Set<number>();
 
-  for (let i = 0; i < rows.length; i++) {
+  const mapRow = (i: number): Partial<CanonicalProduct> | null => {
     const rawRow = rows[i];
-    const mapped = mapRawRowToCanonical(rawRow, i + 2, sourceSchema, headerlessAssign);
-    if (!mapped) continue;
+    const mapped = mapRawRowToCanonical(rawRow, i + 2, sourceSchema, headerlessAssign, mappingOverrides, headerHints);
+    if (!mapped) return null;
     // Pre-sanitize concatenation pass: gated by concatMode
     try {
       // Name-only mode: split Name column only
@@ -259,6 +558,21 @@ export function parseProductsCore(
     } catch {}
     // Always run batch info fallback regardless of concatMode to honor header-independent extraction
     {
+      // Scanned GS1 payloads can sit in any column (barcode, batch, notes): decode them first
+      for (const key of firstKeys) {
+        const cell = rawRow[key];
+        if (cell === undefined || cell === null || !looksLikeGs1(cell)) continue;
+        const gs1 = findGs1Payload(cell);
+        if (!gs1) continue;
+        const src = String(cell);
+        if (gs1.gtin) {
+          applyExtractionToCanonical(mapped, { field: "identity.sku", value: gs1.gtin }, src);
+          if (!skuIsGtin && mapped.identity?.sku === gs1.gtin) gs1GtinRows.add(i);
+        }
+        if (gs1.expiry) applyExtractionToCanonical(mapped, { field: "batch.expiry_date", value: gs1.expiry }, src);
+        if (gs1.batch) applyExtractionToCanonical(mapped, { field: "batch.batch_no", value: gs1.batch }, src);
+        if (gs1.serial) applyExtractionToCanonical(mapped, { field: "identity.serial_no", value: gs1.serial }, src);
+      }
       const fallbackBatchColumns = firstKeys
         .map((key, index) => ({ key, index, path: columnRemainderPaths.get(key) }))
         .filter((col) => col.path === "batch.batch_no");
@@ -277,32 +591,59 @@ export function parseProductsCore(
         }
       }
     }
-    const { row, errors: rowErrors } = sanitizeCanonicalRow(mapped, i + 2, sourceSchema, input.options?.validationMode ?? "full");
-    errors.push(...rowErrors);
-    if (row) {
-      canonicalRows.push(row);
-      parsedRows++;
+    return mapped;
+  };
+
+  const sanitizeRow = (mapped: Partial<CanonicalProduct>, i: number) => {
+    const rowOptions = gs1GtinRows.delete(i) ? { ...sanitizeOptions, skuIsGtin: true } : sanitizeOptions;
+    const out = sanitizeCanonicalRow(mapped, i + 2, sourceSchema, input.options?.validationMode ?? "full", rowOptions);
+    if (out.umbrellaExplanation) {
+      categoryExplanations.push({ row: i + 2, umbrella_category: out.row?.product.umbrella_category ?? undefined, ...out.umbrellaExplanation });
     }
-  }
+    return { row: out.row, errors: out.errors };
+  };
+
+  const processRow = (i: number): { row: CanonicalProduct | null; errors: ParsedRowError[] } | null => {
+    const mapped = mapRow(i);
+    return mapped ? sanitizeRow(mapped, i) : null;
+  };
+
+
+  const buildMeta = (parsedRows: number): ParsedImportResult["meta"] => ({
+    sourceSchema,
+    schemaDetection,
+    ...(registeredSchema?.requiredFields ? { requiredFields: registeredSchema.requiredFields.slice() } : {}),
+    analysisMode: mode,
+    sampleSize,
+    concatMode,
+    validationMode: input.options?.validationMode ?? "full",
+    templateVersion: template?.version ?? headerMeta?.templateVersion,
+    ...(templateNearMatch ? { templateNearMatch } : {}),
+    ...(templateDrift ? { templateDrift } : {}),
+    headerChecksum: headerMeta?.headerChecksum,
+    totalRows: rows.length,
+    parsedRows,
+    concatenatedColumns: concatColsSample,
+    dirtyColumns: Array.from(dirtyColumns).map((idx) => ({ index: idx, header: firstKeys[idx] })),
+    decomposedColumns: Array.from(decomposedSet).map((idx) => ({ index: idx, header: firstKeys[idx] })),
+    columnMapping,
+    columnMappingOverrides,
+    dateOrder,
+    profileId: profileMatch?.profile.id,
+    profileMatch: profileMatch
+      ? { id: profileMatch.profile.id, kind: profileMatch.kind, score: profileMatch.score }
+      : undefined,
+    engineVersion: ENGINE_VERSION,
+    ...(input.options?.explainCategories ? { categoryExplanations: categoryExplanations.slice() } : {}),
+  });
 
   return {
-    rows: canonicalRows,
-    errors,
-    meta: {
-      sourceSchema,
-      analysisMode: mode,
-      sampleSize,
-      concatMode,
-      validationMode: input.options?.validationMode ?? "full",
-      templateVersion: headerMeta?.templateVersion,
-      headerChecksum: headerMeta?.headerChecksum,
-      totalRows: rows.length,
-      parsedRows,
-      concatenatedColumns: concatColsSample,
-      dirtyColumns: Array.from(dirtyColumns).map((idx) => ({ index: idx, header: firstKeys[idx] })),
-      decomposedColumns: Array.from(decomposedSet).map((idx) => ({ index: idx, header: firstKeys[idx] })),
-      engineVersion: ENGINE_VERSION,
-    },
+    totalRows: rows.length,
+    fileErrors: filterFileErrors(fileErrors, input.options?.validationMode),
+    processRow,
+    mapRow,
+    sanitizeRow,
+    buildMeta,
   };
 }
 
@@ -356,6 +697,7 @@ const FLAT_KEY_TO_PATH: Record<string, string> = {
   unit_price: "batch.unit_price",
   coo: "batch.coo",
   cat: "identity.cat",
+  atc_code: "identity.atc_code",
   frm: "identity.frm",
   pkg: "identity.pkg",
   sku: "identity.sku",
@@ -382,6 +724,7 @@ const CANONICAL_KEY_TO_FLAT: Partial<Record<CanonicalKey, keyof typeof FLAT_KEY_
   unit_price: "unit_price",
   coo: "coo",
   sku: "sku",
+  atc_code: "atc_code",
   manufacturer: "manufacturer_name",
   notes: "description",
   requires_prescription: "requires_prescription",
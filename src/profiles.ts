@@ -0,0 +1,110 @@
+/**
+ * Module: Supplier Mapping Profiles
+ * Purpose: Persist a confirmed column mapping (plus concat mode, date format and locale) under a
+ * header fingerprint, and re-apply it automatically when a later upload has the same headers.
+ * Matching:
+ * - Exact: `headersChecksum` of the ordered header row equals the profile fingerprint.
+ * - Fuzzy: Jaccard overlap of normalized header sets ≥ threshold (default 0.8); mapping entries are
+ *   transferred by normalized header key so cosmetic renames ("Qty Avl" → "QTY. AVL") still apply.
+ * Profiles are plain JSON; storage is the caller's concern.
+ * Signed: EyosiyasJ
+ */
+
+import { headersChecksum } from "./schema.js";
+import type { DateOrder, MappingProfile, ParsedImportResult } from "./types.js";
+
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+const normalizeHeader = (h: string): string => String(h ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isSyntheticHeaderRow = (headers: string[]): boolean =>
+  headers.length > 0 && headers.every((h) => /^col_\d+$/.test(h));
+
+/**
+ * Header fingerprint used as profile key (same FNV-1a checksum as the template fast path).
+ * Signed: EyosiyasJ
+ */
+export function headerFingerprint(headers: string[]): string {
+  return headersChecksum(headers.map((h) => String(h)));
+}
+
+/**
+ * Build a profile from a parse result's meta (typically after the user confirmed or corrected
+ * the mapping). Returns `null` for headerless files, whose synthetic `col_N` keys carry no identity.
+ * Signed: EyosiyasJ
+ */
+export function createMappingProfile(
+  meta: ParsedImportResult["meta"],
+  extra?: { id?: string; name?: string; dateFormat?: string; locale?: string; columnMapping?: Record<string, string | null> }
+): MappingProfile | null {
+  const columnMapping = { ...(meta.columnMapping ?? {}), ...(extra?.columnMapping ?? {}) };
+  const headers = Object.keys(meta.columnMapping ?? {});
+  if (!headers.length || isSyntheticHeaderRow(headers)) return null;
+  const fingerprint = headerFingerprint(headers);
+  return {
+    id: extra?.id ?? `profile_${fingerprint}`,
+    name: extra?.name,
+    fingerprint,
+    headers,
+    columnMapping,
+    concatMode: meta.concatMode,
+    dateFormat: extra?.dateFormat,
+    locale: extra?.locale,
+  };
+}
+
+/**
+ * Find the profile matching a header row: exact fingerprint first, else best fuzzy header-set
+ * overlap at or above `threshold`. For fuzzy matches the returned `columnMapping` is re-keyed to the
+ * current headers; profile columns without a counterpart are dropped.
+ * Signed: EyosiyasJ
+ */
+export function matchMappingProfile(
+  headers: string[],
+  profiles: MappingProfile[] | undefined,
+  threshold = DEFAULT_FUZZY_THRESHOLD
+): { profile: MappingProfile; kind: "exact" | "fuzzy"; score: number; columnMapping: Record<string, string | null> } | null {
+  if (!profiles?.length || !headers.length || isSyntheticHeaderRow(headers)) return null;
+  const fingerprint = headerFingerprint(headers);
+  const exact = profiles.find((p) => p.fingerprint === fingerprint);
+  if (exact) return { profile: exact, kind: "exact", score: 1, columnMapping: { ...exact.columnMapping } };
+
+  const current = new Set(headers.map(normalizeHeader).filter(Boolean));
+  let best: { profile: MappingProfile; score: number } | null = null;
+  for (const p of profiles) {
+    const theirs = new Set((p.headers ?? []).map(normalizeHeader).filter(Boolean));
+    if (!theirs.size) continue;
+    let inter = 0;
+    for (const h of theirs) if (current.has(h)) inter++;
+    const union = current.size + theirs.size - inter;
+    const score = union ? inter / union : 0;
+    if (score >= threshold && (!best || score > best.score)) best = { profile: p, score };
+  }
+  if (!best) return null;
+
+  const byNorm = new Map<string, string | null>();
+  for (const [col, target] of Object.entries(best.profile.columnMapping)) byNorm.set(normalizeHeader(col), target);
+  const columnMapping: Record<string, string | null> = {};
+  for (const h of headers) {
+    const n = normalizeHeader(h);
+    if (byNorm.has(n)) columnMapping[h] = byNorm.get(n) ?? null;
+  }
+  return { profile: best.profile, kind: "fuzzy", score: Number(best.score.toFixed(3)), columnMapping };
+}
+
+/**
+ * Day/month order implied by a profile: explicit `dateFormat` (e.g. "MM/DD/YYYY") first,
+ * else `en-US` locale → `MDY`. `undefined` when the profile does not say.
+ * Signed: EyosiyasJ
+ */
+export function dateOrderForProfile(profile: MappingProfile): DateOrder | undefined {
+  const fmt = String(profile.dateFormat ?? "").toUpperCase();
+  const d = fmt.indexOf("D"), m = fmt.indexOf("M"), y = fmt.indexOf("Y");
+  if (d >= 0 && m >= 0 && y >= 0) {
+    if (y < m && m < d) return "YMD";
+    if (m < d) return "MDY";
+    return "DMY";
+  }
+  if (/^en[-_]us$/i.test(String(profile.locale ?? "").trim())) return "MDY";
+  return undefined;
+}
@@ -1,6 +1,9 @@
-import type { CanonicalProduct, ParsedRowError, SourceSchema } from "./types.js";
-import { classifyUmbrellaCategory, mapCategoryCodeToUmbrella, UMBRELLA_CATEGORY_INDEX, UMBRELLA_CATEGORY_RULES, NON_MEDICINE_KEYWORDS } from "./category.js";
+import type { BrandTable, CanonicalProduct, DateOrder, Formulary, ParsedRowError, SourceSchema, UmbrellaClassifier, UmbrellaExplanation } from "./types.js";
+import { classifyIngredientUmbrella, explainUmbrellaCategory, mapAtcCodeToUmbrella, mapCategoryCodeToUmbrella, normalizeAtcCode, UMBRELLA_CATEGORY_RULES, NON_MEDICINE_KEYWORDS } from "./category.js";
 import { normalizeCountryToIso2 } from "./country.js";
+import { GTIN_LENGTHS, isValidGtin, toGtin14 } from "./gs1.js";
+import { parseStrength, normalizeStrengthUnits, strengthImplausibility } from "./strength.js";
+import { buildIngredients, splitIngredientNames } from "./ingredients.js";
 
 /**
  * Module: Field Sanitizers & Row Validation
@@ -15,7 +18,7 @@ import { normalizeCountryToIso2 } from "./country.js";
  */
 // Shared, field-level sanitizers (moved from web importer).
 export type IssueLevel = "error" | "warn";
-export type Issue = { field: string; code: string; msg: string; level: IssueLevel };
+export type Issue = { field: string; code: string; msg: string; level: IssueLevel; daysRemaining?: number };
 
 export interface CanonicalRowInput {
   generic_name?: unknown;
@@ -38,10 +41,44 @@ export interface CanonicalRowInput {
   pieces_per_unit?: unknown;
   unit?: unknown;
   cat?: unknown;
+  atc_code?: unknown;
   frm?: unknown;
   pkg?: unknown;
   coo?: unknown;
   sku?: unknown;
+  serial_no?: unknown;
+}
+
+/**
+ * Row-level sanitize options threaded from `ParseOptions` by the parse pipeline.
+ * - `dateOrder`: how numeric `a/b/yyyy` expiry dates are read (default `DMY`).
+ * - `flagAmbiguousDates`: emit `W_DATE_AMBIGUOUS` when day and month could be swapped
+ *   (set when the order was auto-detected rather than stated by the caller).
+ * - `skuIsGtin`: `identity.sku` holds a scanned barcode (barcode column or GS1 payload), so 8–14 digit
+ *   values are checked as GTINs; serial and SKU columns are left unchecked.
+ * - `gtin14`: normalise valid GTINs to 14 digits (`sanitizeGTIN` `toGtin14`).
+ * - `normalizeStrengthUnits`: rewrite strengths in canonical units (`0.5g` → `500mg`, `1% w/v` → `10mg/ml`).
+ * - `umbrellaClassifier`: umbrella rules to classify with and to accept as medicine category labels
+ *   (default: the built-in rules).
+ * - `requiredFields`: canonical paths that replace the default required-field checks (registered
+ *   schemas); listed fields without a built-in check raise `E_REQUIRED_FIELD`.
+ * - `nearExpiryDays`: emit `W_NEAR_EXPIRY` (with `daysRemaining`) for batches expiring within this many days.
+ * - `referenceDate`: day expiry is checked against (`expired`, `W_NEAR_EXPIRY`); default today.
+ * Signed: EyosiyasJ
+ */
+export interface SanitizeOptions {
+  dateOrder?: DateOrder;
+  flagAmbiguousDates?: boolean;
+  skuIsGtin?: boolean;
+  gtin14?: boolean;
+  normalizeStrengthUnits?: boolean;
+  formulary?: Formulary;
+  brandTable?: BrandTable;
+  umbrellaClassifier?: UmbrellaClassifier;
+  explainCategories?: boolean;
+  requiredFields?: string[];
+  nearExpiryDays?: number;
+  referenceDate?: Date;
 }
 
 export interface SanitizedRow {
@@ -65,10 +102,12 @@ export interface SanitizedRow {
   pieces_per_unit?: string;
   unit?: string;
   cat?: string;
+  atc_code?: string;
   frm?: string;
   pkg?: string;
   coo?: string;
   sku?: string;
+  serial_no?: string;
 }
 
 const FORM_ENUM = ["tablet", "capsule", "syrup", "injection", "cream", "ointment", "drops", "inhaler", "suspension", "solution", "gel", "spray", "lotion", "patch", "powder", "other"] as const;
@@ -144,7 +183,8 @@ const isAlphaNumericBatch = (s: string): boolean => {
 };
 const MANUF_HINT_RE = /\b(pharma|pharmaceuticals?|labs?|laboratories|industries|industry|manufacturing|manufacturer|healthcare|biotech|med|medica|medicines|drug|plc|ltd|limited|inc|gmbh|s\.a\.|s\.p\.a\.|ag)\b/i;
 
-const lev = (a: string, b: string): number => {
+/** Levenshtein edit distance; shared by form autocorrect and formulary matching. */
+export const lev = (a: string, b: string): number => {
   const m = a.length,
     n = b.length,
     d = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
@@ -191,7 +231,12 @@ export function sanitizeForm(v: unknown): { value?: FormEnum; issues: Issue[]; s
   return { issues: [...issues, { field: "form", code: "E_FORM_INVALID", msg: `invalid form "${v}"`, level: "error" }] };
 }
 
-export function sanitizeStrength(v: unknown): { value?: string; issues: Issue[] } {
+/**
+ * Normalize and validate a strength string (`500 mg` → `500mg`).
+ * `options.normalizeUnits` additionally converts to canonical units via `normalizeStrengthUnits`.
+ * Signed: EyosiyasJ
+ */
+export function sanitizeStrength(v: unknown, options?: { normalizeUnits?: boolean }): { value?: string; issues: Issue[] } {
   const issues: Issue[] = [];
   if (!v) return { issues };
   let s = String(v);
@@ -201,12 +246,24 @@ export function sanitizeStrength(v: unknown): { value?: string; issues: Issue[]
   if (!/^(\d+(\.\d+)?(mg|g|mcg|ml|%)|( \d+)?(mg|g|mcg|ml)\/\d+(mg|g|mcg|ml))$/i.test(s)) {
     s = s.replace(/(\d+)\s*\/\s*(\d+)/g, "$1/$2");
   }
-  const ok = /^(\d+(\.\d+)?(mg|g|mcg|ml|%)|\d+(\.\d+)?(mg|g|mcg|ml)\/\d+(\.\d+)?(mg|g|mcg|ml))$/i.test(s);
-  if (!ok) issues.push({ field: "strength", code: "E_STRENGTH_FORMAT", msg: "use like 500mg, 5mg/5ml, 1%", level: "error" });
+  // Combinations (`500mg+125mg`, `80/480mg`) and IU/percent-basis strengths are accepted when they parse structurally
+  const ok = /^(\d+(\.\d+)?(mg|g|mcg|ml|%)|\d+(\.\d+)?(mg|g|mcg|ml)\/\d+(\.\d+)?(mg|g|mcg|ml))$/i.test(s) || parseStrength(s) !== null;
+  if (!ok) issues.push({ field: "strength", code: "E_STRENGTH_FORMAT", msg: "use like 500mg, 5mg/5ml, 1%, 500mg+125mg", level: "error" });
+  if (ok && options?.normalizeUnits) {
+    const parsed = parseStrength(s);
+    if (parsed) s = normalizeStrengthUnits(parsed).display;
+  }
   return { value: s, issues };
 }
 
-export function sanitizeGTIN(v: unknown): { value?: string; issues: Issue[] } {
+/**
+ * Validate a GTIN: digits only, 8–14 long, GS1 check digit (GTIN-8/12/13/14).
+ * - `E_GTIN_CHECKDIGIT`: check digit does not match.
+ * - `W_GTIN_PADDED`: 9–11 digits (leading zeros lost, typically by Excel) restored to the next GTIN length.
+ * - `options.toGtin14`: return the value left-padded to GTIN-14.
+ * Signed: EyosiyasJ
+ */
+export function sanitizeGTIN(v: unknown, options?: { toGtin14?: boolean }): { value?: string; issues: Issue[] } {
   const issues: Issue[] = [];
   if (!v) return { issues };
   const raw = String(v);
@@ -217,8 +274,17 @@ export function sanitizeGTIN(v: unknown): { value?: string; issues: Issue[] } {
   }
   if (digits.length < 8 || digits.length > 14) {
     issues.push({ field: "gtin", code: "E_GTIN_LEN", msg: "GTIN length must be 8–14", level: "error" });
+    return { value: digits, issues };
+  }
+  let value = digits;
+  if (!GTIN_LENGTHS.includes(value.length)) {
+    value = value.padStart(GTIN_LENGTHS.find((n) => n > digits.length) ?? 14, "0");
+    issues.push({ field: "gtin", code: "W_GTIN_PADDED", msg: `restored leading zeros: ${value}`, level: "warn" });
+  }
+  if (!isValidGtin(value)) {
+    issues.push({ field: "gtin", code: "E_GTIN_CHECKDIGIT", msg: "GTIN check digit does not match", level: "error" });
   }
-  return { value: digits, issues };
+  return { value: options?.toGtin14 ? toGtin14(value) : value, issues };
 }
 
 export function sanitizeBool(v: unknown): { value?: boolean; issues: Issue[] } {
@@ -259,25 +325,45 @@ export function sanitizeBatchNo(v: unknown): { value?: string; issues: Issue[] }
   return { value: s, issues };
 }
 
-export function sanitizeExpiry(v: unknown): { value?: string; issues: Issue[] } {
+/**
+ * Validate a numeric expiry date: `E_DATE_*` for malformed parts, `W_EXPIRED` for past dates and, when
+ * `nearExpiryDays` is given, `W_NEAR_EXPIRY` with `daysRemaining` for dates within that horizon.
+ * "Today" is the calendar day of `referenceDate` (see `parseReferenceDate`) when given.
+ * Signed: EyosiyasJ
+ */
+export function sanitizeExpiry(
+  v: unknown,
+  order: DateOrder = "DMY",
+  { nearExpiryDays, referenceDate }: { nearExpiryDays?: number; referenceDate?: Date } = {}
+): { value?: string; issues: Issue[] } {
   const issues: Issue[] = [];
   if (!v) return { issues };
   const s = String(v).trim();
-  const m = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(s);
-  if (!m) {
-    issues.push({ field: "expiry_date", code: "E_DATE_FMT", msg: "use DD/MM/YYYY", level: "error" });
+  // Strict template shape (2-digit day/month, `/` only); the lenient forms are for `parseDateFlexible`
+  const shape = order === "YMD" ? /^\d{4}\/\d{2}\/\d{2}$/ : /^\d{2}\/\d{2}\/\d{4}$/;
+  const parts = shape.test(s) ? splitNumericDate(s, order) : undefined;
+  if (!parts) {
+    issues.push({ field: "expiry_date", code: "E_DATE_FMT", msg: `use ${DATE_ORDER_LABEL[order]}`, level: "error" });
     return { issues };
   }
-  const dd = +m[1],
-    mm = +m[2],
-    yy = +m[3];
+  const dd = parts.day,
+    mm = parts.month,
+    yy = parts.year;
   if (mm < 1 || mm > 12) issues.push({ field: "expiry_date", code: "E_DATE_MM", msg: "month 01–12", level: "error" });
   const daysInMonth = new Date(yy, mm, 0).getDate();
   if (dd < 1 || dd > daysInMonth) issues.push({ field: "expiry_date", code: "E_DATE_DD", msg: `day 01–${daysInMonth}`, level: "error" });
-  const today = new Date();
+  const today = referenceDate
+    ? new Date(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), referenceDate.getUTCDate())
+    : new Date();
   const dt = new Date(yy, mm - 1, dd);
-  if (dt.getTime() < new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) {
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+  if (dt.getTime() < startOfToday) {
     issues.push({ field: "expiry_date", code: "W_EXPIRED", msg: "date is in the past", level: "warn" });
+  } else if (isNearExpiryHorizon(nearExpiryDays)) {
+    const daysRemaining = Math.round((dt.getTime() - startOfToday) / DAY_MS);
+    if (daysRemaining <= nearExpiryDays) {
+      issues.push({ field: "expiry_date", code: "W_NEAR_EXPIRY", msg: nearExpiryMessage(daysRemaining, nearExpiryDays), level: "warn", daysRemaining });
+    }
   }
   return { value: s, issues };
 }
@@ -317,6 +403,14 @@ export function sanitizeCategoryCode(v: unknown): { value?: string; issues: Issu
   return { value: s, issues };
 }
 
+export function sanitizeAtcCode(v: unknown): { value?: string; issues: Issue[] } {
+  const s = String(v ?? "").trim();
+  if (!s) return { issues: [{ field: "atc_code", code: "E_ATC_MISSING", msg: "ATC code required", level: "error" }] };
+  const code = normalizeAtcCode(s);
+  if (!code) return { value: s.toUpperCase(), issues: [{ field: "atc_code", code: "E_ATC_FORMAT", msg: "use a WHO ATC code (e.g., J01CA04)", level: "error" }] };
+  return { value: code, issues: [] };
+}
+
 export function sanitizeFormCode(v: unknown): { value?: string; issues: Issue[] } {
   const issues: Issue[] = [];
   const s = String(v ?? "").trim().toUpperCase();
@@ -346,7 +440,11 @@ export function sanitizePackageCode(v: unknown): { value?: string; issues: Issue
  * Sanitize a loosely-typed canonical row with schema-aware invariants.
  * Signed: EyosiyasJ
  */
-export function sanitizeRow(input: CanonicalRowInput, schema?: SourceSchema): { row: SanitizedRow; issues: Issue[] } {
+export function sanitizeRow(
+  input: CanonicalRowInput,
+  schema?: SourceSchema,
+  options: SanitizeOptions = {}
+): { row: SanitizedRow; issues: Issue[] } {
   const issues: Issue[] = [];
   const out: SanitizedRow = { generic_name: "" };
 
@@ -366,11 +464,11 @@ export function sanitizeRow(input: CanonicalRowInput, schema?: SourceSchema): {
     issues.push({ field: "manufacturer_name", code: "E_TEXT_DIGITS_SUSPECT", msg: "manufacturer must not contain digits/units", level: "warn" });
   }
 
-  const st = sanitizeStrength(input.strength);
+  const st = sanitizeStrength(input.strength, { normalizeUnits: options.normalizeStrengthUnits });
   if (st.value !== undefined) out.strength = st.value;
   issues.push(...st.issues);
 
-  const gt = sanitizeGTIN(input.gtin);
+  const gt = sanitizeGTIN(input.gtin, { toGtin14: options.gtin14 });
   if (gt.value !== undefined) out.gtin = gt.value;
   issues.push(...gt.issues);
 
@@ -410,7 +508,7 @@ export function sanitizeRow(input: CanonicalRowInput, schema?: SourceSchema): {
   out.description = collapseWS(String(input.description ?? "")).trim() || undefined;
 
   const bn = sanitizeBatchNo(input.batch_no);
-  const expiryIsoFlex = parseDateFlexible(input.expiry_date);
+  const expiryIsoFlex = parseDateFlexible(input.expiry_date, options.dateOrder);
   const q = sanitizeNumber(input.on_hand, { ge: 0 });
   const pr = sanitizeNumber(input.unit_price, { gt: 0 });
   const rv = sanitizeNumber(input.reserved ?? 0, { ge: 0 });
@@ -433,6 +531,11 @@ export function sanitizeRow(input: CanonicalRowInput, schema?: SourceSchema): {
     if (c.value !== undefined) out.cat = c.value;
     issues.push(...c.issues);
   }
+  if (input.atc_code !== undefined && hasVal(input.atc_code)) {
+    const atc = sanitizeAtcCode(input.atc_code);
+    if (atc.value !== undefined) out.atc_code = atc.value;
+    issues.push(...atc.issues);
+  }
   if (input.frm !== undefined && hasVal(input.frm)) {
     const fc = sanitizeFormCode(input.frm);
     if (fc.value !== undefined) out.frm = fc.value;
@@ -461,34 +564,118 @@ export function sanitizeRow(input: CanonicalRowInput, schema?: SourceSchema): {
 
   const sku = collapseWS(String(input.sku ?? "")).trim();
   if (sku) out.sku = sku;
+  const serial = collapseWS(String(input.serial_no ?? "")).trim();
+  if (serial) out.serial_no = serial;
 
   return { row: out, issues };
 }
 
-const ddmmyyyyToIso = (s: string | undefined): string | undefined => {
-  if (!s) return undefined;
-  const m = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(s.trim());
+/** ISO `YYYY-MM-DD`: passed through as-is whatever the date order. */
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const DATE_ORDER_LABEL: Record<DateOrder, string> = {
+  DMY: "DD/MM/YYYY",
+  MDY: "MM/DD/YYYY",
+  YMD: "YYYY/MM/DD",
+};
+
+/**
+ * Split a numeric three-part date (`/`, `-` or `.` separated, 4-digit year) into day/month/year
+ * according to `order`. Does not check calendar validity.
+ * Signed: EyosiyasJ
+ */
+const splitNumericDate = (s: string, order: DateOrder): { day: number; month: number; year: number } | undefined => {
+  const t = s.trim();
+  if (order === "YMD") {
+    const m = /^(\d{4})[\/.-](\d{1,2})[\/.-](\d{1,2})$/.exec(t);
+    return m ? { year: +m[1], month: +m[2], day: +m[3] } : undefined;
+  }
+  const m = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/.exec(t);
   if (!m) return undefined;
-  const [_, dd, mm, yyyy] = m;
-  return `${yyyy}-${mm}-${dd}`;
+  return order === "MDY"
+    ? { month: +m[1], day: +m[2], year: +m[3] }
+    : { day: +m[1], month: +m[2], year: +m[3] };
+};
+
+/**
+ * Numeric three-part date → ISO under `order`; `undefined` when the date does not exist.
+ * Signed: EyosiyasJ
+ */
+const numericDateToIso = (s: string | undefined, order: DateOrder): string | undefined => {
+  if (!s) return undefined;
+  const p = splitNumericDate(s, order);
+  if (!p) return undefined;
+  if (p.month < 1 || p.month > 12) return undefined;
+  const end = new Date(p.year, p.month, 0).getDate();
+  if (p.day < 1 || p.day > end) return undefined;
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
 };
 
+/**
+ * True when a numeric `a/b/yyyy` date reads as a valid but different date with day and month swapped.
+ * Signed: EyosiyasJ
+ */
+export function isAmbiguousDayMonth(value: unknown): boolean {
+  const m = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/.exec(String(value ?? "").trim());
+  if (!m) return false;
+  const a = +m[1], b = +m[2];
+  return a !== b && a >= 1 && a <= 12 && b >= 1 && b <= 12;
+}
+
+/**
+ * Detect the day/month order of an expiry column from sample values.
+ * Counts unambiguous evidence: first part > 12 → DMY, second part > 12 → MDY, 4-digit first part → YMD.
+ * Dash ISO `YYYY-MM-DD` reads the same under every order, so it is not YMD evidence (`2027/12/31` is).
+ * Picks the order with the most votes; falls back to `DMY` (source `default`) when there is no evidence or a tie.
+ * Signed: EyosiyasJ
+ */
+export function detectDateOrder(values: unknown[]): {
+  order: DateOrder;
+  source: "detected" | "default";
+  evidence: { DMY: number; MDY: number; YMD: number; ambiguous: number; examples: string[] };
+} {
+  const evidence = { DMY: 0, MDY: 0, YMD: 0, ambiguous: 0, examples: [] as string[] };
+  for (const v of values) {
+    const s = String(v ?? "").trim();
+    if (!s) continue;
+    let vote: DateOrder | undefined;
+    const ymd = /^(\d{4})[\/.-](\d{1,2})[\/.-](\d{1,2})$/.exec(s);
+    const xyz = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/.exec(s);
+    if (ymd) {
+      if (!ISO_DATE_RE.test(s)) vote = "YMD";
+    } else if (xyz) {
+      const a = +xyz[1], b = +xyz[2];
+      if (a > 12 && b <= 12) vote = "DMY";
+      else if (b > 12 && a <= 12) vote = "MDY";
+      else if (a <= 12 && b <= 12) evidence.ambiguous++;
+    }
+    if (vote) {
+      evidence[vote]++;
+      if (evidence.examples.length < 5) evidence.examples.push(s);
+    }
+  }
+  const ranked = (["DMY", "MDY", "YMD"] as DateOrder[]).sort((x, y) => evidence[y] - evidence[x]);
+  const best = ranked[0];
+  if (evidence[best] === 0 || evidence[best] === evidence[ranked[1]]) return { order: "DMY", source: "default", evidence };
+  return { order: best, source: "detected", evidence };
+}
+
 /**
  * Parse common expiry formats into deterministic ISO date (YYYY-MM-DD).
  * Supports:
  * - ISO `YYYY-MM-DD` pass-through
- * - `DD/MM/YYYY` → ISO
+ * - Numeric day/month/year per `order` (`DD/MM/YYYY` default, `MM/DD/YYYY`, `YYYY/MM/DD`) → ISO
  * - Excel serial (>=60) → ISO
  * - `MMM-YY`, `MMM/YY`, `MMM YYYY` (e.g., `Nov-28`, `Feb/2028`) → last day of month
  * - `MM-YY`, `MM/YY`, `MM YYYY` (e.g., `11-28`, `07/2030`) → last day of month
  * Signed: EyosiyasJ
  */
-const parseDateFlexible = (value: unknown): string | undefined => {
+const parseDateFlexible = (value: unknown, order: DateOrder = "DMY"): string | undefined => {
   if (value === undefined || value === null || value === "") return undefined;
   const s = String(value).trim();
   if (!s) return undefined;
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  const iso = ddmmyyyyToIso(s);
+  if (ISO_DATE_RE.test(s)) return s;
+  const iso = numericDateToIso(s, order);
   if (iso) return iso;
 
   // Excel serial dates
@@ -538,12 +725,55 @@ const parseDateFlexible = (value: unknown): string | undefined => {
   return undefined;
 };
 
-const isFutureDate = (iso: string): boolean => {
+/**
+ * Reference day for expiry checks (`ParseOptions.referenceDate`): a `Date`, or a string — `yyyy-MM-dd`
+ * is read as that calendar day, anything else through `Date.parse`. `undefined` when absent or invalid.
+ * Signed: EyosiyasJ
+ */
+export function parseReferenceDate(value: Date | string | undefined): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const d = value instanceof Date
+    ? new Date(value.getTime())
+    : /^\d{4}-\d{2}-\d{2}$/.test(String(value).trim())
+      ? new Date(`${String(value).trim()}T00:00:00.000Z`)
+      : new Date(Date.parse(String(value)));
+  return isNaN(d.getTime()) ? undefined : d;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start (UTC ms) of the reference day: the UTC calendar day of `referenceDate`, or today. */
+const startOfDayUtc = (referenceDate?: Date): number => {
+  const now = referenceDate ?? new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+};
+
+const isFutureDate = (iso: string, referenceDate?: Date): boolean => {
   const target = new Date(`${iso}T00:00:00.000Z`);
   if (isNaN(target.getTime())) return false;
-  const now = new Date();
-  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
-  return target.getTime() > today.getTime();
+  return target.getTime() > startOfDayUtc(referenceDate);
+};
+
+/** Whole days from the reference day (UTC) to an ISO date; negative once past. */
+const daysUntil = (iso: string, referenceDate?: Date): number | undefined => {
+  const target = new Date(`${iso}T00:00:00.000Z`);
+  if (isNaN(target.getTime())) return undefined;
+  return Math.round((target.getTime() - startOfDayUtc(referenceDate)) / DAY_MS);
+};
+
+const isNearExpiryHorizon = (days: number | undefined): days is number =>
+  typeof days === "number" && Number.isFinite(days) && days >= 0;
+
+const nearExpiryMessage = (daysRemaining: number, horizon: number): string =>
+  `expires in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"} (near-expiry horizon ${horizon} days)`;
+
+/**
+ * Barcode cells that can only be a GTIN (8–14 digits once spaces are removed) are validated as one;
+ * shorter numeric codes and alphanumeric values are left alone.
+ */
+const gtinFromSku = (v: unknown): string | undefined => {
+  const s = String(v ?? "").replace(/\s+/g, "");
+  return /^\d{8,14}$/.test(s) ? s : undefined;
 };
 
 const mapIssueToParsed = (issue: Issue, rowIndex: number): ParsedRowError => {
@@ -562,15 +792,20 @@ const mapIssueToParsed = (issue: Issue, rowIndex: number): ParsedRowError => {
       case "coo":
         return "identity.coo";
       case "cat":
+      case "atc_code":
       case "frm":
       case "pkg":
       case "sku":
         return `identity.${issue.field}`;
+      case "gtin":
+        return "identity.sku";
       default:
         return issue.field;
     }
   })();
-  return { row: rowIndex, field: fieldPath, code: issue.code, message: issue.msg };
+  const out: ParsedRowError = { row: rowIndex, field: fieldPath, code: issue.code, message: issue.msg };
+  if (issue.daysRemaining !== undefined) out.daysRemaining = issue.daysRemaining;
+  return out;
 };
 
 /**
@@ -581,6 +816,7 @@ const mapIssueToParsed = (issue: Issue, rowIndex: number): ParsedRowError => {
  * - `rowIndex`: 1-based Excel/CSV row index for error reporting.
  * - `schema`: `SourceSchema` used to adjust requiredness (best-effort for `concat_items`).
  * - `validationMode`: `full` | `errorsOnly` | `none` to control error verbosity/perf.
+ * - `options`: `SanitizeOptions` (expiry `dateOrder`, ambiguity flagging).
  *
  * Behavior:
  * - Builds `pkg.pieces_per_unit` from `pieces_per_unit` and retains `identity` codes.
@@ -591,14 +827,21 @@ const mapIssueToParsed = (issue: Issue, rowIndex: number): ParsedRowError => {
  * Returns:
  * - `{ row, errors }` where `row` is `CanonicalProduct | null` if unrecoverable,
  *   and `errors` are `ParsedRowError[]` respecting `validationMode`.
+ * - `umbrellaExplanation` (only with `options.explainCategories`): umbrella scoring and its source.
  * Signed: EyosiyasJ
  */
 export function sanitizeCanonicalRow(
   raw: Partial<CanonicalProduct>,
   rowIndex: number,
   schema?: SourceSchema,
-  validationMode: "full" | "errorsOnly" | "none" = "full"
-): { row: CanonicalProduct | null; errors: ParsedRowError[] } {
+  validationMode: "full" | "errorsOnly" | "none" = "full",
+  options: SanitizeOptions = {}
+): {
+  row: CanonicalProduct | null;
+  errors: ParsedRowError[];
+  umbrellaExplanation?: { source: "code" | "atc" | "text" | "none"; explanation: UmbrellaExplanation };
+} {
+  const umbrellaRules = options.umbrellaClassifier?.rules ?? UMBRELLA_CATEGORY_RULES;
   const flat: CanonicalRowInput = {
     generic_name: raw.product?.generic_name,
     brand_name: raw.product?.brand_name,
@@ -614,24 +857,27 @@ export function sanitizeCanonicalRow(
     on_hand: raw.batch?.on_hand,
     unit_price: raw.batch?.unit_price,
     cat: raw.identity?.cat,
+    atc_code: raw.identity?.atc_code,
     frm: raw.identity?.frm,
     pkg: raw.identity?.pkg,
     coo: raw.batch?.coo ?? raw.identity?.coo,
     sku: raw.identity?.sku,
+    gtin: options.skuIsGtin ? gtinFromSku(raw.identity?.sku) : undefined,
+    serial_no: raw.identity?.serial_no,
     purchase_unit: raw.identity?.purchase_unit,
     pieces_per_unit: raw.pkg?.pieces_per_unit,
     unit: raw.identity?.unit,
   };
 
-  // Product-Type aware adjustments for Template v3
+  // Product-Type aware adjustments for the MedWay templates (v3 and v4)
   let productTypeRaw = String((raw.identity as any)?.product_type ?? "").trim().toLowerCase();
-  const isTemplateV3 = schema === "template_v3";
+  const isTemplate = schema === "template_v3" || schema === "template_v4";
   // Short-circuit classification when Product Type missing/invalid
-  if (isTemplateV3 && (!productTypeRaw || !["medicine","non-medicine"].includes(productTypeRaw))) {
+  if (isTemplate && (!productTypeRaw || !["medicine","non-medicine"].includes(productTypeRaw))) {
     const catRaw = String(raw.product?.category ?? "").trim().toLowerCase();
     const formRaw = String(raw.product?.form ?? "").trim().toLowerCase();
     const strengthRaw = String(raw.product?.strength ?? "").trim();
-    const medLabels = new Set(UMBRELLA_CATEGORY_RULES.map((r) => String(r.label).toLowerCase()));
+    const medLabels = new Set(umbrellaRules.map((r) => String(r.label).toLowerCase()));
     const nonMedLabels = new Set(["accessories","chemicals & reagents"]);
     const knownForms = new Set<string>([...Object.keys(FORM_SYNONYMS), ...FORM_ENUM.map((f) => f.toLowerCase())]);
     const strengthLike = /^(?:\d+(?:[.,]\d+)?)\s*(mg|mcg|g|kg|ml|l|iu|%)(?:\s*\/\s*\d+(?:[.,]\d+)?\s*(mg|mcg|g|kg|ml|l|%))?$/i.test(strengthRaw.replace(/\s+/g, "")) || /\b\d+(?:[.,]\d+)?\s*(mg|mcg|g|kg|ml|l|iu|%)\b/i.test(strengthRaw);
@@ -665,9 +911,9 @@ export function sanitizeCanonicalRow(
       }
     }
   }
-  const isNonMedicine = isTemplateV3 && productTypeRaw === "non-medicine";
-  const isMedicine = isTemplateV3 && productTypeRaw === "medicine";
-  if (isTemplateV3) {
+  const isNonMedicine = isTemplate && productTypeRaw === "non-medicine";
+  const isMedicine = isTemplate && productTypeRaw === "medicine";
+  if (isTemplate) {
     if (!productTypeRaw) {
       if (validationMode !== "none") {
         // identity.product_type missing
@@ -689,7 +935,7 @@ export function sanitizeCanonicalRow(
     }
   }
 
-  const { row, issues } = sanitizeRow(flat, schema);
+  const { row, issues } = sanitizeRow(flat, schema, options);
   const filteredIssues = (() => {
     let base = issues;
     if (schema === "concat_items") {
@@ -704,7 +950,7 @@ export function sanitizeCanonicalRow(
   let errors = validationMode === "none" ? [] : baseIssues.map((i) => mapIssueToParsed(i, rowIndex));
 
   // Product Type errors appended post-sanitize issues
-  if (validationMode !== "none" && isTemplateV3) {
+  if (validationMode !== "none" && isTemplate) {
     if (!productTypeRaw) {
       errors.push({ row: rowIndex, field: "identity.product_type", code: "E_PRODUCT_TYPE_MISSING", message: "Product Type required (medicine | non-medicine)" });
     } else if (!(isNonMedicine || isMedicine)) {
@@ -749,7 +995,7 @@ export function sanitizeCanonicalRow(
     }
   }
 
-  const expiryIso = parseDateFlexible(row.expiry_date);
+  const expiryIso = parseDateFlexible(row.expiry_date, options.dateOrder);
   if (validationMode !== "none" && !relaxed && !isNonMedicine) {
     if (emptyish(row.expiry_date)) {
       const code = schema === "concat_items" ? "W_OPTIONAL_EXPIRY_MISSING" : "E_REQUIRED_EXPIRY";
@@ -759,13 +1005,32 @@ export function sanitizeCanonicalRow(
   }
   if (validationMode !== "none") {
     if (expiryIso) {
-      if (!isFutureDate(expiryIso)) {
+      if (!isFutureDate(expiryIso, options.referenceDate)) {
         errors.push({ row: rowIndex, field: "batch.expiry_date", code: "expired", message: "Expiry date must be in the future" });
+      } else if (validationMode === "full" && isNearExpiryHorizon(options.nearExpiryDays)) {
+        const daysRemaining = daysUntil(expiryIso, options.referenceDate);
+        if (daysRemaining !== undefined && daysRemaining <= options.nearExpiryDays) {
+          errors.push({
+            row: rowIndex,
+            field: "batch.expiry_date",
+            code: "W_NEAR_EXPIRY",
+            message: nearExpiryMessage(daysRemaining, options.nearExpiryDays),
+            daysRemaining,
+          });
+        }
       }
     } else if (row.expiry_date) {
       errors.push({ row: rowIndex, field: "batch.expiry_date", code: "invalid_format", message: "Cannot parse expiry date" });
     }
   }
+  if (validationMode === "full" && options.flagAmbiguousDates && expiryIso && options.dateOrder !== "YMD" && isAmbiguousDayMonth(flat.expiry_date)) {
+    errors.push({
+      row: rowIndex,
+      field: "batch.expiry_date",
+      code: "W_DATE_AMBIGUOUS",
+      message: `'${String(flat.expiry_date).trim()}' read as ${expiryIso} (${DATE_ORDER_LABEL[options.dateOrder ?? "DMY"]}); day and month are both ≤ 12`,
+    });
+  }
 
   const hasPack = Boolean(row.pkg) || (typeof row.pieces_per_unit === "number" && !Number.isNaN(row.pieces_per_unit)) || (typeof row.pieces_per_unit === "string" && !emptyish(row.pieces_per_unit));
   if (validationMode !== "none" && !relaxed) {
@@ -783,7 +1048,7 @@ export function sanitizeCanonicalRow(
   }
 
   // Product-Type category constraints
-  if (validationMode !== "none" && isTemplateV3 && !emptyish(row.category)) {
+  if (validationMode !== "none" && isTemplate && !emptyish(row.category)) {
     const catLower = String(row.category ?? "").trim().toLowerCase();
     if (isNonMedicine) {
       const allowed = new Set(["accessories", "chemicals & reagents"]);
@@ -791,9 +1056,9 @@ export function sanitizeCanonicalRow(
         errors.push({ row: rowIndex, field: "product.category", code: "E_CATEGORY_NON_MED_INVALID", message: "category must be either \"Accessories\" or \"Chemicals & Reagents\"" });
       }
     } else if (isMedicine) {
-      const allowedLabels = new Set(UMBRELLA_CATEGORY_RULES.map((r) => String(r.label).toLowerCase()));
+      const allowedLabels = new Set(umbrellaRules.map((r) => String(r.label).toLowerCase()));
       if (!allowedLabels.has(catLower)) {
-        errors.push({ row: rowIndex, field: "product.category", code: "E_CATEGORY_MED_INVALID", message: "category must be one of the 23 medicine categories" });
+        errors.push({ row: rowIndex, field: "product.category", code: "E_CATEGORY_MED_INVALID", message: `category must be one of the ${allowedLabels.size} medicine categories` });
       }
     }
   }
@@ -822,17 +1087,20 @@ export function sanitizeCanonicalRow(
     },
   };
 
-  const identityHasValues = Boolean(row.cat || row.frm || row.pkg || row.coo || row.sku || productTypeRaw);
+  const identityHasValues = Boolean(row.cat || row.atc_code || row.frm || row.pkg || row.coo || row.sku || row.serial_no || productTypeRaw);
   if (identityHasValues) {
     canonical.identity = {
       cat: row.cat ?? null,
+      ...(row.atc_code ? { atc_code: row.atc_code } : {}),
       frm: row.frm ?? null,
       pkg: row.pkg ?? null,
       coo: row.coo ?? null,
-      sku: row.sku ?? null,
+      // A validated GTIN in the SKU column comes back with restored zeros / GTIN-14 padding
+      sku: row.gtin ?? row.sku ?? null,
       purchase_unit: row.purchase_unit ?? null,
       unit: row.unit ?? null,
       product_type: productTypeRaw ? productTypeRaw : null,
+      ...(row.serial_no ? { serial_no: row.serial_no } : {}),
     };
   }
 
@@ -851,20 +1119,104 @@ export function sanitizeCanonicalRow(
     canonical.pkg = { pieces_per_unit: parsedPiecesPerUnit };
   }
 
-  // Derive umbrella category: prefer 3-letter code when present, else use text classification
-  const umbrellaFromCode = mapCategoryCodeToUmbrella(row.cat);
-  const umbrella =
-    umbrellaFromCode ??
-    classifyUmbrellaCategory({
-      generic_name: canonical.product.generic_name,
-      brand_name: canonical.product.brand_name ?? undefined,
-      category: canonical.product.category ?? undefined,
-      description: canonical.product.description ?? undefined,
-    });
+  // Post-parse sanity pass: enforce invariants and downgrade suspicious values
+  const strengthLikeRe = /^\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|iu|%)(?:\s*\/\s*\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|%))?$/i;
+  const pushSuspect = (fieldPath: string, value: string) => {
+    if (validationMode !== "none") {
+      errors.push({ row: rowIndex, field: fieldPath, code: "E_FIELD_SUSPECT_VALUE", message: "value failed invariants; moved to description" });
+    }
+  };
+  // Generic name resolution (purity, brand table, formulary). With a brand table or formulary it runs before
+  // umbrella classification, so a brand or misspelt generic is classified by its INN; otherwise it keeps
+  // its place after the form/category checks and default output is unchanged
+  const resolveGenericName = () => {
+    // Generic vs strength/form purity: strip unit tokens and form words from generic_name
+    if (canonical.product.generic_name) {
+      const original = canonical.product.generic_name;
+      const unitTokenRe = /\b(\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|iu|%)\b(?:\s*\/\s*\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|%))?)/gi;
+      const formWords = [...Object.keys(FORM_SYNONYMS), ...FORM_ENUM].map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+      const formRe = new RegExp(`\\b(${formWords.join("|")})s?\\b`, "gi");
+      const removed: string[] = [];
+      let g = original;
+      g = g.replace(unitTokenRe, (m) => { removed.push(m); return " "; });
+      g = g.replace(formRe, (m) => { removed.push(m); return " "; });
+      g = collapseWS(g);
+      if (removed.length && g) {
+        canonical.product.generic_name = g;
+        const moved = removed.join(" ");
+        canonical.product.description = (canonical.product.description ? `${canonical.product.description} ${moved}` : moved).trim();
+        pushSuspect("product.generic_name", moved);
+      }
+    }
+    // Brand resolution: a brand in the generic column (brand table, else a formulary brand hit) moves to
+    // `brand_name` and its INN takes the generic slot
+    if ((options.brandTable || options.formulary) && canonical.product.generic_name) {
+      const original = canonical.product.generic_name;
+      const viaFormulary = options.formulary?.match(original);
+      const resolved =
+        options.brandTable?.resolve(original) ??
+        (viaFormulary?.method === "brand" ? { brand: original, inn: viaFormulary.inn } : null);
+      if (resolved) {
+        const existingBrand = String(canonical.product.brand_name ?? "").trim();
+        if (!existingBrand || existingBrand.toUpperCase() === "NA" || existingBrand.toLowerCase() === original.toLowerCase()) {
+          canonical.product.brand_name = resolved.brand;
+        }
+        canonical.product.generic_name = resolved.inn;
+        if (validationMode === "full") {
+          errors.push({
+            row: rowIndex,
+            field: "product.generic_name",
+            code: "W_BRAND_IN_GENERIC",
+            message: `brand "${original}" in generic_name resolved to "${resolved.inn}"`,
+          });
+        }
+      }
+    }
+    // Formulary: canonical INN for the (purified, brand-resolved) generic
+    if (options.formulary && canonical.product.generic_name) {
+      const original = canonical.product.generic_name;
+      const match = options.formulary.match(original);
+      if (match) {
+        canonical.product.formulary = match;
+        if (match.inn !== original) {
+          canonical.product.generic_name = match.inn;
+          if (validationMode === "full" && (match.method === "alias" || match.method === "fuzzy")) {
+            errors.push({
+              row: rowIndex,
+              field: "product.generic_name",
+              code: "W_GENERIC_AUTOCORRECT",
+              message: `generic "${original}" matched formulary INN "${match.inn}" (${match.method}, confidence ${match.confidence})`,
+            });
+          }
+        }
+      }
+    }
+  };
+  const resolveBeforeUmbrella = Boolean(options.brandTable || options.formulary);
+  if (resolveBeforeUmbrella) resolveGenericName();
+  // Derive umbrella category: prefer 3-letter code, then the ATC group, else use text classification
+  const umbrellaFromCat = mapCategoryCodeToUmbrella(row.cat);
+  const umbrellaFromAtc = umbrellaFromCat ? undefined : mapAtcCodeToUmbrella(row.atc_code);
+  const umbrellaFromCode = umbrellaFromCat ?? umbrellaFromAtc;
+  // Text scoring is skipped when the code decides, unless the caller asked for explanations
+  const umbrellaInput = {
+    generic_name: canonical.product.generic_name,
+    brand_name: canonical.product.brand_name ?? undefined,
+    category: canonical.product.category ?? undefined,
+    description: canonical.product.description ?? undefined,
+    ingredients: splitIngredientNames(canonical.product.generic_name),
+  };
+  const umbrellaExplanation =
+    !umbrellaFromCode || options.explainCategories
+      ? options.umbrellaClassifier
+        ? options.umbrellaClassifier.explain(umbrellaInput)
+        : explainUmbrellaCategory(umbrellaInput)
+      : undefined;
+  const umbrella = umbrellaFromCode ?? umbrellaExplanation?.result;
   if (umbrella) {
     canonical.product.umbrella_category = umbrella;
     if (umbrellaFromCode) {
-      const rule = UMBRELLA_CATEGORY_INDEX[umbrella];
+      const rule = umbrellaRules.find((r) => r.id === umbrella);
       if (rule && rule.label) {
         canonical.product.category = rule.label;
       }
@@ -877,14 +1229,6 @@ export function sanitizeCanonicalRow(
       }
     }
   }
-
-  // Post-parse sanity pass: enforce invariants and downgrade suspicious values
-  const strengthLikeRe = /^\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|iu|%)(?:\s*\/\s*\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|%))?$/i;
-  const pushSuspect = (fieldPath: string, value: string) => {
-    if (validationMode !== "none") {
-      errors.push({ row: rowIndex, field: fieldPath, code: "E_FIELD_SUSPECT_VALUE", message: "value failed invariants; moved to description" });
-    }
-  };
   if (canonical.product.form && (hasDigit(canonical.product.form) || hasUnitToken(canonical.product.form))) {
     const moved = canonical.product.form;
     canonical.product.form = "";
@@ -912,24 +1256,7 @@ export function sanitizeCanonicalRow(
       }
     }
   }
-  // Generic vs strength/form purity: strip unit tokens and form words from generic_name
-  if (canonical.product.generic_name) {
-    const original = canonical.product.generic_name;
-    const unitTokenRe = /\b(\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|iu|%)\b(?:\s*\/\s*\d+(?:\.\d+)?\s*(mg|mcg|g|kg|ml|l|%))?)/gi;
-    const formWords = [...Object.keys(FORM_SYNONYMS), ...FORM_ENUM].map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
-    const formRe = new RegExp(`\\b(${formWords.join("|")})s?\\b`, "gi");
-    const removed: string[] = [];
-    let g = original;
-    g = g.replace(unitTokenRe, (m) => { removed.push(m); return " "; });
-    g = g.replace(formRe, (m) => { removed.push(m); return " "; });
-    g = collapseWS(g);
-    if (removed.length && g) {
-      canonical.product.generic_name = g;
-      const moved = removed.join(" ");
-      canonical.product.description = (canonical.product.description ? `${canonical.product.description} ${moved}` : moved).trim();
-      pushSuspect("product.generic_name", moved);
-    }
-  }
+  if (!resolveBeforeUmbrella) resolveGenericName();
   // Form vs category duplication: avoid identical values
   if (canonical.product.form && canonical.product.category) {
     const f = String(canonical.product.form).toLowerCase();
@@ -1027,6 +1354,48 @@ export function sanitizeCanonicalRow(
     }
   }
 
+  // Structured strength alongside the display string (after purity passes settled `strength`)
+  const strengthParsed = parseStrength(canonical.product.strength);
+  if (strengthParsed) {
+    const finalStrength = options.normalizeStrengthUnits ? normalizeStrengthUnits(strengthParsed) : strengthParsed;
+    canonical.product.strength = finalStrength.display;
+    canonical.product.strength_parsed = finalStrength;
+    const implausible = strengthImplausibility(strengthParsed, canonical.product.form);
+    if (validationMode === "full" && implausible) {
+      errors.push({ row: rowIndex, field: "product.strength", code: "W_STRENGTH_IMPLAUSIBLE", message: implausible });
+    }
+  }
+
+  // Active ingredients: combination generics are split and paired with strength components by position;
+  // each ingredient of a combination gets its own umbrella, a mono product inherits the row's.
+  const ingredients = buildIngredients(canonical.product.generic_name, canonical.product.strength_parsed);
+  if (ingredients.length) {
+    for (const ing of ingredients) {
+      const ingUmbrella =
+        ingredients.length <= 1
+          ? canonical.product.umbrella_category
+          : options.umbrellaClassifier
+            ? options.umbrellaClassifier.classifyIngredient(ing.name)
+            : classifyIngredientUmbrella(ing.name);
+      if (ingUmbrella) ing.umbrella_category = ingUmbrella;
+    }
+    canonical.product.ingredients = ingredients;
+  }
+
+  // Registered schemas: their required-field contract replaces the default required checks
+  if (options.requiredFields && validationMode !== "none") {
+    const required = new Set(options.requiredFields);
+    const isRequiredCheck = (e: ParsedRowError) => /^(E_REQUIRED_|W_OPTIONAL_)|^E_[A-Z]+_MISSING$/.test(e.code);
+    errors = errors.filter((e) => !isRequiredCheck(e) || required.has(e.field));
+    for (const path of required) {
+      if (errors.some((e) => e.field === path && isRequiredCheck(e))) continue;
+      const [head, leaf] = path.split(".");
+      if (emptyish((canonical as any)[head]?.[leaf])) {
+        errors.push({ row: rowIndex, field: path, code: "E_REQUIRED_FIELD", message: `${path} required` });
+      }
+    }
+  }
+
   // Universal NA fallback for empty text fields
   const textNA = (v: unknown) => {
     const s = String(v ?? "").trim();
@@ -1047,5 +1416,15 @@ export function sanitizeCanonicalRow(
   canonical.product.description = textNA(canonical.product.description ?? "");
   canonical.batch.batch_no = textNA(canonical.batch.batch_no ?? "");
 
+  if (options.explainCategories && umbrellaExplanation) {
+    return {
+      row: canonical,
+      errors,
+      umbrellaExplanation: {
+        source: umbrellaFromCat ? "code" : umbrellaFromAtc ? "atc" : umbrella ? "text" : "none",
+        explanation: umbrellaExplanation,
+      },
+    };
+  }
   return { row: canonical, errors };
 }
@@ -1,10 +1,12 @@
 import { RawRow } from "./csv.js";
 import { UMBRELLA_CATEGORY_RULES } from "./category.js";
-import { CanonicalProduct, SourceSchema } from "./types.js";
+import { CanonicalProduct, SchemaDefinition, SchemaDetection, SchemaDetectionContext, SourceSchema, TemplateDrift } from "./types.js";
+import { DEFAULT_SCHEMA_PRIORITY, getSourceSchema, listSourceSchemas } from "./schemaRegistry.js";
 import { suggestHeaderMappings } from "./semantics.js";
 import { decomposeConcatenatedCell } from "./concatDecompose.js";
+import { isValidGtin } from "./gs1.js";
 
-const TEMPLATE_V3_HEADERS = [
+export const TEMPLATE_V3_HEADERS = [
   "Generic (International Name)",
   "Product Type",
   "Strength",
@@ -47,8 +49,36 @@ const LEGACY_ITEMS_HEADERS = [
   "Recommended",
 ];
 
-const TEMPLATE_VERSION = "MedWay_Template_v3";
-const TEMPLATE_CHECKSUM = "f9802bc8";
+export const TEMPLATE_VERSION = "MedWay_Template_v3";
+export const TEMPLATE_CHECKSUM = "f9802bc8";
+
+/** Template v4: v3 plus ATC code, storage conditions and controlled-substance columns. */
+export const TEMPLATE_V4_HEADERS = [
+  "Generic (International Name)",
+  "Product Type",
+  "Brand Name",
+  "Manufacturer",
+  "Strength",
+  "Dosage Form",
+  "Product Category",
+  "ATC Code",
+  "Expiry Date",
+  "Pack Contents",
+  "Batch / Lot Number",
+  "Item Quantity",
+  "Unit Price",
+  "Country of Manufacture",
+  "Serial Number",
+  "Storage Conditions",
+  "Controlled Substance",
+  "Notes",
+];
+
+export const TEMPLATE_V4_VERSION = "MedWay_Template_v4";
+export const TEMPLATE_V4_CHECKSUM = "89ac9428";
+
+/** Newest template version; files matching an older one get `W_TEMPLATE_OUTDATED`. */
+export const CURRENT_TEMPLATE_VERSION = TEMPLATE_V4_VERSION;
 
 type CanonicalFlat = {
   generic_name?: string;
@@ -63,6 +93,7 @@ type CanonicalFlat = {
   unit_price?: number;
   coo?: string | null;
   cat?: string | null;
+  atc_code?: string | null;
   frm?: string | null;
   pkg?: string | null;
   sku?: string | null;
@@ -150,6 +181,7 @@ const HEADER_SYNONYMS: Record<keyof CanonicalFlat, string[]> = {
     "country_code",
   ],
   cat: ["cat", "category_code"],
+  atc_code: ["atc_code", "atc", "atc_class", "atc_classification", "who_atc", "who_atc_code"],
   frm: ["frm", "form_code"],
   pkg: ["pkg", "package", "package_code"],
   sku: ["sku", "item_code"],
@@ -212,7 +244,11 @@ function tokenSetScore(a: string, b: string): number {
   return denom ? (2 * inter) / denom : 0;
 }
 
-function jaroWinklerSim(a: string, b: string): number {
+/**
+ * Jaro-Winkler similarity (0..1, case-insensitive); shared by header mapping and formulary matching.
+ * Signed: EyosiyasJ
+ */
+export function jaroWinklerSim(a: string, b: string): number {
   a = a.toLowerCase();
   b = b.toLowerCase();
   const m = Math.floor(Math.max(a.length, b.length) / 2) - 1;
@@ -305,7 +341,7 @@ const fnv1a = (s: string): string => {
   return ("00000000" + (h >>> 0).toString(16)).slice(-8);
 };
 
-const headersChecksum = (headers: string[]): string =>
+export const headersChecksum = (headers: string[]): string =>
   fnv1a(headers.join("|").toLowerCase());
 
 const arraysEqualIgnoreOrder = (a: string[], b: string[]): boolean => {
@@ -326,13 +362,140 @@ const looksLikeProductCsv = (headers: string[]): boolean => {
   );
 };
 
+const normHeader = (h: string): string => String(h).trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Evaluate a registered schema's detector; returns the reason when it matches.
+ * Signed: EyosiyasJ
+ */
+function runSchemaDetector(def: SchemaDefinition, context: SchemaDetectionContext): string | undefined {
+  const detect = def.detect;
+  if (detect.type === "headers") {
+    const have = new Set(context.headers.map(normHeader));
+    const want = Array.from(new Set(detect.headers.map(normHeader)));
+    if (!want.length || !want.every((h) => have.has(h))) return undefined;
+    if (detect.match === "exact" && have.size !== want.length) return undefined;
+    return `${detect.match === "exact" ? "header set equals" : "headers include"} ${want.length} '${def.id}' headers`;
+  }
+  if (detect.type === "checksum") {
+    return context.headers.length && headersChecksum(context.headers) === detect.checksum
+      ? `header checksum ${detect.checksum}`
+      : undefined;
+  }
+  const verdict = detect.test(context);
+  if (typeof verdict === "string") return verdict || `'${def.id}' predicate matched`;
+  return verdict ? `'${def.id}' predicate matched` : undefined;
+}
+
+/**
+ * Detect input schema and report which detector decided. Detectors run by descending priority:
+ * 1. `template_meta` (400): `__meta` template version and checksum, with that template's header set → `template_v4` / `template_v3`;
+ * 2. `headerless` (300): synthetic `col_N` keys → `csv_generic` (`unknown` for workbooks);
+ * 3. `items_headers` (200): Items.xlsx header set → `concat_items`;
+ * 4. `template_checksum` (200): header checksum of a known template version → its schema;
+ * 5. registered schemas (`registerSourceSchema`, default priority 100) → their `id`;
+ * 6. `template_drift` (50): headers differ from a template only by renames/reordering → that template;
+ * 7. `product_headers` (0): product-like headers → `csv_generic`;
+ * otherwise `none` → `unknown`. Registered schemas may set a priority above the built-ins.
+ * Signed: EyosiyasJ
+ */
+export function explainSourceSchema(
+  rows: RawRow[],
+  headerMeta?: { templateVersion?: string; headerChecksum?: string },
+  origin?: "workbook" | "text"
+): SchemaDetection {
+  const headerKeys = Object.keys(rows[0] || {});
+  const context: SchemaDetectionContext = { headers: headerKeys, sampleRows: rows.slice(0, 32), headerMeta, origin };
+  const builtIn: Array<{ detector: string; priority: number; run: () => { schema: SourceSchema; reason: string } | undefined }> = [
+    {
+      detector: "template_meta",
+      priority: 400,
+      run: () => {
+        // __meta alone is not enough: edited header rows fall through to the checksum/drift detectors
+        const t = TEMPLATE_VERSIONS.find(
+          (v) =>
+            headerMeta?.templateVersion === v.version &&
+            headerMeta?.headerChecksum === v.checksum &&
+            arraysEqualIgnoreOrder(headerKeys, v.headers)
+        );
+        return t ? { schema: t.schema, reason: `__meta declares ${t.version} with checksum ${t.checksum}` } : undefined;
+      },
+    },
+    {
+      detector: "headerless",
+      priority: 300,
+      run: () =>
+        headerKeys.length && headerKeys.every((k) => /^col_\d+$/.test(k))
+          ? { schema: origin === "workbook" ? "unknown" : "csv_generic", reason: "no header row (synthetic col_N keys)" }
+          : undefined,
+    },
+    {
+      detector: "items_headers",
+      priority: 200,
+      run: () =>
+        arraysEqualIgnoreOrder(headerKeys, LEGACY_ITEMS_HEADERS)
+          ? { schema: "concat_items", reason: "header set equals the Items.xlsx POS export" }
+          : undefined,
+    },
+    {
+      detector: "template_checksum",
+      priority: 200,
+      run: () => {
+        const checksum = headerKeys.length ? headersChecksum(headerKeys.map((h) => String(h))) : undefined;
+        const t = checksum ? TEMPLATE_VERSIONS.find((v) => v.checksum === checksum) : undefined;
+        return t ? { schema: t.schema, reason: `header checksum ${t.checksum} (${t.version})` } : undefined;
+      },
+    },
+    {
+      detector: "template_drift",
+      priority: 50,
+      run: () => {
+        const drift = headerKeys.length ? diagnoseTemplateDrift(headerKeys, headerMeta) : undefined;
+        if (!drift?.cosmetic) return undefined;
+        const changes = [
+          drift.renamed.length ? `${drift.renamed.length} renamed` : "",
+          drift.reordered ? "reordered" : "",
+        ].filter(Boolean);
+        return { schema: drift.schema, reason: `headers match ${drift.version} up to cosmetic drift (${changes.join(", ")})` };
+      },
+    },
+    {
+      detector: "product_headers",
+      priority: 0,
+      run: () =>
+        looksLikeProductCsv(headerKeys)
+          ? { schema: "csv_generic", reason: "headers mention generic/name/batch/expiry/price" }
+          : undefined,
+    },
+  ];
+  const registered = listSourceSchemas().map((def) => ({
+    detector: `registered:${def.id}`,
+    priority: def.priority ?? DEFAULT_SCHEMA_PRIORITY,
+    run: () => {
+      const reason = runSchemaDetector(def, context);
+      return reason ? { schema: def.id, reason } : undefined;
+    },
+  }));
+  // Stable sort: built-ins run before registered schemas of the same priority
+  const detectors = [...builtIn, ...registered].sort((a, b) => b.priority - a.priority);
+  const tried: string[] = [];
+  for (const d of detectors) {
+    const hit = d.run();
+    if (hit) return { ...hit, detector: d.detector, priority: d.priority, tried };
+    tried.push(d.detector);
+  }
+  return { schema: "unknown", detector: "none", reason: "no detector matched", tried };
+}
+
 /**
  * Detect input schema from headers and optional template metadata.
  * Returns one of:
- * - `template_v3`: official MedWay Excel template (checksum or exact headers)
+ * - `template_v4` / `template_v3`: official MedWay Excel template (checksum or exact headers)
  * - `concat_items`: Items.xlsx style with concatenated fields (alias: legacy_items)
+ * - a registered schema id (see `registerSourceSchema`)
  * - `csv_generic`: generic CSV with fuzzy header mapping
  * - `unknown`: unrecognized shape
+ * See `explainSourceSchema` for the detector order.
  * Signed: EyosiyasJ
  */
 export function detectSourceSchema(
@@ -340,41 +503,14 @@ export function detectSourceSchema(
   headerMeta?: { templateVersion?: string; headerChecksum?: string },
   origin?: "workbook" | "text"
 ): SourceSchema {
-  if (
-    headerMeta?.templateVersion === TEMPLATE_VERSION &&
-    headerMeta?.headerChecksum === TEMPLATE_CHECKSUM
-  ) {
-    return "template_v3";
-  }
-
-  const headerRow = rows[0] || {};
-  const headerKeys = Object.keys(headerRow);
-  if (headerKeys.length && headerKeys.every((k) => /^col_\d+$/.test(k))) {
-    return origin === "workbook" ? "unknown" : "csv_generic";
-  }
-
-  if (arraysEqualIgnoreOrder(headerKeys, LEGACY_ITEMS_HEADERS)) {
-    return "concat_items";
-  }
-
-  // Template V3 detection based on header checksum
-  if (headerKeys.length) {
-    const checksum = headersChecksum(headerKeys.map((h) => String(h)));
-    if (checksum === TEMPLATE_CHECKSUM) {
-      return "template_v3";
-    }
-  }
-
-  if (looksLikeProductCsv(headerKeys)) {
-    return "csv_generic";
-  }
-
-  return "unknown";
+  return explainSourceSchema(rows, headerMeta, origin).schema;
 }
 
 /**
  * Map a single raw row to a partial `CanonicalProduct` based on detected schema.
  * Supports headerless assignments for CSV when provided.
+ * Generic CSV headers resolve through `hints`; pass the file's `suggestGenericHeaderHints(rows)` so every
+ * row (and `describeColumnMapping`) maps the same way. Without it, hints come from the row alone.
  * Drops fully empty rows.
  * Signed: EyosiyasJ
  */
@@ -382,23 +518,426 @@ export function mapRawRowToCanonical(
   raw: RawRow,
   excelRowIndex: number,
   schema: SourceSchema,
-  headerlessAssign?: Record<string, keyof CanonicalFlat>
+  headerlessAssign?: Record<string, keyof CanonicalFlat>,
+  overrides?: ColumnOverrides,
+  hints?: HeaderHints
 ): Partial<CanonicalProduct> | null {
   if (isRowEmpty(raw)) return null;
+  const registered = getSourceSchema(schema);
+  if (registered) {
+    const columns = resolveColumnOverrides(registered.columns).overrides;
+    const mapped = registered.mapRow
+      ? registered.mapRow(raw, excelRowIndex)
+      : overlayColumnOverrides(ensureCanonical({}), raw, columns);
+    return mapped ? overlayColumnOverrides(mapped, raw, overrides, columns) : null;
+  }
+  const template = templateForSchema(schema);
+  if (template) return overlayColumnOverrides(template.mapRow(raw), raw, overrides, template.columns);
   switch (schema) {
-    case "template_v3":
-      return mapTemplateV3Row(raw);
     case "concat_items":
-      return mapConcatItemsRow(raw);
+      return overlayColumnOverrides(mapConcatItemsRow(raw), raw, overrides, CONCAT_ITEMS_COLUMN_KEYS);
     case "legacy_items":
-      return mapConcatItemsRow(raw);
+      return overlayColumnOverrides(mapConcatItemsRow(raw), raw, overrides, CONCAT_ITEMS_COLUMN_KEYS);
     case "csv_generic":
       if (headerlessAssign) return mapCsvHeaderlessRow(raw, headerlessAssign);
-      return mapCsvGenericRow(raw);
+      return mapCsvGenericRow(raw, overrides, hints);
     case "unknown":
     default:
       if (headerlessAssign) return mapCsvHeaderlessRow(raw, headerlessAssign);
-      return mapCsvGenericRow(raw);
+      return mapCsvGenericRow(raw, overrides, hints);
+  }
+}
+
+/**
+ * Caller column overrides resolved to flat keys; `null` means "ignore this column".
+ * Keys are source headers, or synthetic `col_N` keys for headerless files.
+ * Signed: EyosiyasJ
+ */
+export type ColumnOverrides = Record<string, keyof CanonicalFlat | null>;
+
+/**
+ * Canonical field paths accepted in `ParseOptions.columnMapping`.
+ * Country is accepted as either `identity.coo` or `batch.coo` (both are populated).
+ */
+const CANONICAL_PATH_TO_FLAT: Record<string, keyof CanonicalFlat> = {
+  "product.generic_name": "generic_name",
+  "product.brand_name": "brand_name",
+  "product.manufacturer_name": "manufacturer_name",
+  "product.strength": "strength",
+  "product.form": "form",
+  "product.category": "category",
+  "product.requires_prescription": "requires_prescription",
+  "product.is_controlled": "is_controlled",
+  "product.storage_conditions": "storage_conditions",
+  "product.description": "description",
+  "batch.batch_no": "batch_no",
+  "batch.expiry_date": "expiry_date",
+  "batch.on_hand": "on_hand",
+  "batch.unit_price": "unit_price",
+  "batch.coo": "coo",
+  "identity.coo": "coo",
+  "identity.cat": "cat",
+  "identity.atc_code": "atc_code",
+  "identity.frm": "frm",
+  "identity.pkg": "pkg",
+  "identity.sku": "sku",
+  "identity.purchase_unit": "purchase_unit",
+  "identity.unit": "unit",
+  "identity.product_type": "product_type",
+  "pkg.pieces_per_unit": "pieces_per_unit",
+};
+
+/**
+ * Flat key → canonical path reported in meta (same convention as `meta.columnGuesses`).
+ */
+const FLAT_TO_CANONICAL_PATH: Record<keyof CanonicalFlat, string> = {
+  generic_name: "product.generic_name",
+  brand_name: "product.brand_name",
+  manufacturer_name: "product.manufacturer_name",
+  strength: "product.strength",
+  form: "product.form",
+  category: "product.category",
+  requires_prescription: "product.requires_prescription",
+  is_controlled: "product.is_controlled",
+  storage_conditions: "product.storage_conditions",
+  description: "product.description",
+  batch_no: "batch.batch_no",
+  expiry_date: "batch.expiry_date",
+  on_hand: "batch.on_hand",
+  unit_price: "batch.unit_price",
+  coo: "identity.coo",
+  cat: "identity.cat",
+  atc_code: "identity.atc_code",
+  frm: "identity.frm",
+  pkg: "identity.pkg",
+  sku: "identity.sku",
+  purchase_unit: "identity.purchase_unit",
+  unit: "identity.unit",
+  product_type: "identity.product_type",
+  pieces_per_unit: "pkg.pieces_per_unit",
+};
+
+/**
+ * Fixed column → flat key layout of the official templates and POS exports (for meta reporting).
+ */
+const TEMPLATE_V3_COLUMN_KEYS: Record<string, keyof CanonicalFlat> = {
+  "Generic (International Name)": "generic_name",
+  "Product Type": "product_type",
+  "Strength": "strength",
+  "Dosage Form": "form",
+  "Product Category": "category",
+  "Expiry Date": "expiry_date",
+  "Pack Contents": "pieces_per_unit",
+  "Batch / Lot Number": "batch_no",
+  "Item Quantity": "on_hand",
+  "Unit Price": "unit_price",
+  "Country of Manufacture": "coo",
+  "Serial Number": "sku",
+  "Brand Name": "brand_name",
+  "Manufacturer": "manufacturer_name",
+  "Notes": "description",
+};
+const TEMPLATE_V4_COLUMN_KEYS: Record<string, keyof CanonicalFlat> = {
+  ...TEMPLATE_V3_COLUMN_KEYS,
+  "ATC Code": "atc_code",
+  "Storage Conditions": "storage_conditions",
+  "Controlled Substance": "is_controlled",
+};
+
+/** A published MedWay template version: its header row, checksum, column layout and row mapper. */
+export interface TemplateVersionInfo {
+  version: string;
+  schema: SourceSchema;
+  headers: string[];
+  checksum: string;
+  columns: Record<string, keyof CanonicalFlat>;
+  mapRow(raw: RawRow): Partial<CanonicalProduct>;
+}
+
+/** Known template versions, newest first. Add a version here with its own mapper; older ones keep parsing. */
+const TEMPLATE_VERSIONS: TemplateVersionInfo[] = [
+  {
+    version: TEMPLATE_V4_VERSION,
+    schema: "template_v4",
+    headers: TEMPLATE_V4_HEADERS,
+    checksum: TEMPLATE_V4_CHECKSUM,
+    columns: TEMPLATE_V4_COLUMN_KEYS,
+    mapRow: mapTemplateV4Row,
+  },
+  {
+    version: TEMPLATE_VERSION,
+    schema: "template_v3",
+    headers: TEMPLATE_V3_HEADERS,
+    checksum: TEMPLATE_CHECKSUM,
+    columns: TEMPLATE_V3_COLUMN_KEYS,
+    mapRow: mapTemplateV3Row,
+  },
+];
+
+/**
+ * Template version behind a detected schema (`template_v4` → `MedWay_Template_v4`), if it is a template.
+ * Signed: EyosiyasJ
+ */
+export function templateForSchema(schema: SourceSchema | undefined): TemplateVersionInfo | undefined {
+  return TEMPLATE_VERSIONS.find((t) => t.schema === schema);
+}
+
+/**
+ * Closest template for headers that did not match one exactly: the version declared in `__meta`, or the
+ * version sharing the most headers when at least 60% of its columns are present. Used to say which
+ * template a file almost matched when its checksum fails.
+ * Signed: EyosiyasJ
+ */
+export function findTemplateNearMatch(
+  headers: string[],
+  headerMeta?: { templateVersion?: string; headerChecksum?: string }
+): { version: string; schema: SourceSchema; matchedHeaders: number; totalHeaders: number; missing: string[]; declared: boolean } | undefined {
+  const have = new Set(headers.map((h) => normHeader(h)));
+  const scored = TEMPLATE_VERSIONS.map((t) => {
+    const missing = t.headers.filter((h) => !have.has(normHeader(h)));
+    return { t, missing, matched: t.headers.length - missing.length };
+  });
+  const declared = scored.find((s) => s.t.version === headerMeta?.templateVersion);
+  const ratio = (s: (typeof scored)[number]) => s.matched / s.t.headers.length;
+  // Most template headers present wins; the smaller template wins ties (a v3 file is not a partial v4)
+  const best = declared ?? scored.reduce((a, b) => (b.matched > a.matched || (b.matched === a.matched && ratio(b) > ratio(a)) ? b : a));
+  if (!declared && ratio(best) < 0.6) return undefined;
+  return {
+    version: best.t.version,
+    schema: best.t.schema,
+    matchedHeaders: best.matched,
+    totalHeaders: best.t.headers.length,
+    missing: best.missing,
+    declared: !!declared,
+  };
+}
+
+/**
+ * Compare a header row with the template it almost matches (`findTemplateNearMatch`): template headers
+ * found verbatim, renamed (case/spacing, or the same canonical field by `fuzzyHeaderMap` / direct
+ * similarity ≥ 0.8), missing, plus file headers that match nothing. Undefined when no template is close.
+ * Signed: EyosiyasJ
+ */
+export function diagnoseTemplateDrift(
+  headers: string[],
+  headerMeta?: { templateVersion?: string; headerChecksum?: string }
+): TemplateDrift | undefined {
+  const near = findTemplateNearMatch(headers, headerMeta);
+  const template = near && templateForSchema(near.schema);
+  if (!near || !template) return undefined;
+  const fileHeaders = headers.map((h) => String(h));
+  const verbatim = new Set(fileHeaders.filter((h) => template.headers.includes(h)));
+  const unmatched = template.headers.filter((t) => !verbatim.has(t));
+  const pending = fileHeaders.filter((h) => !verbatim.has(h));
+  const candidates: Array<{ from: string; to: string; score: number }> = [];
+  for (const from of pending) {
+    for (const to of unmatched) {
+      const score = headerRenameScore(from, to, template.columns[to]);
+      if (score >= 0.8) candidates.push({ from, to, score: Math.round(score * 100) / 100 });
+    }
+  }
+  // Greedy best-first pairing: each file header and each template header is used once
+  const renamed: TemplateDrift["renamed"] = [];
+  const usedFrom = new Set<string>();
+  const usedTo = new Set<string>();
+  for (const c of candidates.sort((a, b) => b.score - a.score)) {
+    if (usedFrom.has(c.from) || usedTo.has(c.to)) continue;
+    usedFrom.add(c.from);
+    usedTo.add(c.to);
+    renamed.push(c);
+  }
+  const missing = unmatched.filter((t) => !usedTo.has(t));
+  const extra = pending.filter((h) => !usedFrom.has(h));
+  const asTemplate = fileHeaders
+    .map((h) => (verbatim.has(h) ? h : renamed.find((r) => r.from === h)?.to))
+    .filter((t): t is string => !!t);
+  const expectedOrder = template.headers.filter((t) => asTemplate.includes(t));
+  return {
+    version: template.version,
+    schema: template.schema,
+    declared: near.declared,
+    expectedChecksum: template.checksum,
+    actualChecksum: headersChecksum(fileHeaders),
+    declaredChecksum: headerMeta?.headerChecksum,
+    missing,
+    extra,
+    renamed,
+    reordered: asTemplate.some((t, i) => t !== expectedOrder[i]),
+    cosmetic: missing.length === 0 && extra.length === 0,
+  };
+}
+
+function headerRenameScore(from: string, to: string, key: keyof CanonicalFlat | undefined): number {
+  if (normHeader(from) === normHeader(to)) return 1;
+  const direct = Math.max(tokenSetScore(from, to), jaroWinklerSim(from, to));
+  const fuzzy = fuzzyHeaderMap(from);
+  return Math.max(direct, key && fuzzy.key === key ? fuzzy.score : 0);
+}
+
+/**
+ * Column overrides that route renamed headers of a cosmetically drifted file to the template's fields.
+ * Signed: EyosiyasJ
+ */
+export function templateDriftOverrides(drift: TemplateDrift): ColumnOverrides {
+  const template = templateForSchema(drift.schema);
+  const out: ColumnOverrides = {};
+  for (const { from, to } of drift.renamed) {
+    const key = template?.columns[to];
+    if (key) out[from] = key;
+  }
+  return out;
+}
+
+const CONCAT_ITEMS_COLUMN_KEYS: Record<string, keyof CanonicalFlat> = {
+  Name: "generic_name",
+  Stock: "on_hand",
+  Price: "unit_price",
+  CategoryId: "category",
+};
+
+/**
+ * Validate a caller `columnMapping` (column → canonical path | null).
+ * Returns the resolved overrides plus entries whose target path is not a known canonical field.
+ * Signed: EyosiyasJ
+ */
+export function resolveColumnOverrides(
+  mapping?: Record<string, string | null>
+): { overrides?: ColumnOverrides; invalid: Array<{ column: string; target: string }> } {
+  const invalid: Array<{ column: string; target: string }> = [];
+  if (!mapping) return { invalid };
+  const overrides: ColumnOverrides = {};
+  for (const [column, target] of Object.entries(mapping)) {
+    if (target === null || target === undefined || String(target).trim() === "") {
+      overrides[column] = null;
+      continue;
+    }
+    const key = CANONICAL_PATH_TO_FLAT[String(target).trim()];
+    if (key) overrides[column] = key;
+    else invalid.push({ column, target: String(target) });
+  }
+  return { overrides: Object.keys(overrides).length ? overrides : undefined, invalid };
+}
+
+/**
+ * Apply caller overrides on top of inferred headerless assignments: overridden columns take the
+ * caller's field (or are dropped when `null`) and any other column auto-assigned to that field is released.
+ * Signed: EyosiyasJ
+ */
+export function mergeHeaderlessOverrides(
+  assign: Record<string, keyof CanonicalFlat> | undefined,
+  overrides: ColumnOverrides | undefined
+): Record<string, keyof CanonicalFlat> | undefined {
+  if (!overrides) return assign;
+  const merged: Record<string, keyof CanonicalFlat> = { ...(assign ?? {}) };
+  const claimed = new Set(Object.values(overrides).filter(Boolean));
+  for (const [col, key] of Object.entries(merged)) {
+    if (claimed.has(key) && !Object.prototype.hasOwnProperty.call(overrides, col)) delete merged[col];
+  }
+  for (const [col, key] of Object.entries(overrides)) {
+    if (key) merged[col] = key;
+    else delete merged[col];
+  }
+  return merged;
+}
+
+/**
+ * Describe the column mapping actually applied for the file: column → canonical path, or `null` when the
+ * column is not mapped. The result has the same shape as `ParseOptions.columnMapping` so it can be saved
+ * and replayed for the same supplier. Pass the `hints` the rows were mapped with (defaults to
+ * `suggestGenericHeaderHints(rows)`, as the parse pipeline uses).
+ * Signed: EyosiyasJ
+ */
+export function describeColumnMapping(
+  rows: RawRow[],
+  schema: SourceSchema,
+  headerlessAssign?: Record<string, keyof CanonicalFlat>,
+  overrides?: ColumnOverrides,
+  hints?: HeaderHints
+): Record<string, string | null> {
+  const keys = Object.keys(rows[0] || {});
+  const out: Record<string, string | null> = {};
+  const toPath = (k?: keyof CanonicalFlat | null) => (k ? FLAT_TO_CANONICAL_PATH[k] : null);
+  const hasOverride = (col: string) => !!overrides && Object.prototype.hasOwnProperty.call(overrides, col);
+  if (headerlessAssign && (schema === "csv_generic" || schema === "unknown")) {
+    for (const k of keys) out[k] = toPath(headerlessAssign[k]);
+    return out;
+  }
+  const claimed = new Set(Object.values(overrides ?? {}).filter(Boolean));
+  if (schema === "csv_generic" || schema === "unknown") {
+    const fileHints = hints ?? suggestGenericHeaderHints(rows);
+    for (const k of keys) {
+      if (hasOverride(k)) {
+        out[k] = toPath(overrides![k]);
+        continue;
+      }
+      const mapped = resolveGenericHeader(k, fileHints);
+      out[k] = mapped && !claimed.has(mapped) ? toPath(mapped) : null;
+    }
+    return out;
+  }
+  const registered = getSourceSchema(schema);
+  const fixed = registered
+    ? resolveColumnOverrides(registered.columns).overrides ?? {}
+    : templateForSchema(schema)?.columns ?? CONCAT_ITEMS_COLUMN_KEYS;
+  // A built-in column whose field an override claims is released, as in `overlayColumnOverrides`
+  for (const k of keys) {
+    const builtIn = fixed[k];
+    out[k] = hasOverride(k) ? toPath(overrides![k]) : builtIn && !claimed.has(builtIn) ? toPath(builtIn) : null;
+  }
+  return out;
+}
+
+/**
+ * Overlay caller overrides onto a row produced by a fixed-layout mapper (template/POS):
+ * non-empty override cells replace the value at the target field. With the mapper's `builtIn` columns,
+ * a field is first cleared when its built-in column is dropped (`null`) or remapped, or when an override
+ * on another column claims it, so the row matches what `describeColumnMapping` reports.
+ * Signed: EyosiyasJ
+ */
+function overlayColumnOverrides(
+  mapped: Partial<CanonicalProduct>,
+  raw: RawRow,
+  overrides?: ColumnOverrides,
+  builtIn?: ColumnOverrides
+): Partial<CanonicalProduct> {
+  if (!overrides) return mapped;
+  if (builtIn) {
+    const claimed = new Set(Object.values(overrides).filter(Boolean));
+    for (const [col, key] of Object.entries(builtIn)) {
+      if (!key || !Object.prototype.hasOwnProperty.call(raw, col)) continue;
+      const overridden = Object.prototype.hasOwnProperty.call(overrides, col);
+      if (overridden ? overrides[col] !== key : claimed.has(key)) clearCanonicalField(mapped, key);
+    }
+  }
+  const flat: CanonicalFlat = {};
+  for (const [col, key] of Object.entries(overrides)) {
+    if (!key || sanitizeString(raw[col]) === "") continue;
+    assignFlatValue(flat, key, raw[col]);
+  }
+  for (const [key, value] of Object.entries(flat) as Array<[keyof CanonicalFlat, unknown]>) {
+    if (value === undefined || value === null || value === "") continue;
+    const paths = key === "coo" ? ["batch.coo", "identity.coo"] : [FLAT_TO_CANONICAL_PATH[key]];
+    for (const p of paths) {
+      const [head, leaf] = p.split(".");
+      const box = ((mapped as any)[head] = (mapped as any)[head] ?? {});
+      box[leaf] = value;
+    }
+  }
+  return mapped;
+}
+
+/** Reset one flat field of a mapped row to its `ensureCanonical` default (removed when it has none). */
+function clearCanonicalField(mapped: Partial<CanonicalProduct>, key: keyof CanonicalFlat): void {
+  const defaults = ensureCanonical({}) as any;
+  const paths = key === "coo" ? ["batch.coo", "identity.coo"] : [FLAT_TO_CANONICAL_PATH[key]];
+  for (const p of paths) {
+    if (!p) continue;
+    const [head, leaf] = p.split(".");
+    const box = (mapped as any)[head];
+    if (!box) continue;
+    const fallback = defaults[head]?.[leaf];
+    if (fallback === undefined) delete box[leaf];
+    else box[leaf] = fallback;
   }
 }
 
@@ -436,6 +975,7 @@ function ensureCanonical(flat: CanonicalFlat): Partial<CanonicalProduct> {
   };
   const identity =
     flat.cat ||
+    flat.atc_code ||
     flat.frm ||
     flat.pkg ||
     flat.coo ||
@@ -445,6 +985,7 @@ function ensureCanonical(flat: CanonicalFlat): Partial<CanonicalProduct> {
     flat.product_type
       ? {
           cat: flat.cat ?? null,
+          ...(flat.atc_code ? { atc_code: flat.atc_code } : {}),
           frm: flat.frm ?? null,
           pkg: flat.pkg ?? null,
           coo: flat.coo ?? null,
@@ -462,8 +1003,26 @@ function ensureCanonical(flat: CanonicalFlat): Partial<CanonicalProduct> {
 }
 
 function mapTemplateV3Row(raw: RawRow): Partial<CanonicalProduct> {
+  return ensureCanonical(templateV3Flat(raw));
+}
+
+/**
+ * Template v4 row: the v3 columns plus ATC code, storage conditions and the controlled-substance flag.
+ * Signed: EyosiyasJ
+ */
+function mapTemplateV4Row(raw: RawRow): Partial<CanonicalProduct> {
+  const get = (k: string) => sanitizeString(raw[k]);
+  return ensureCanonical({
+    ...templateV3Flat(raw),
+    atc_code: get("ATC Code") || null,
+    storage_conditions: get("Storage Conditions") || null,
+    is_controlled: get("Controlled Substance") || null,
+  });
+}
+
+function templateV3Flat(raw: RawRow): CanonicalFlat {
   const get = (k: string) => sanitizeString(raw[k]);
-  const flat: CanonicalFlat = {
+  return {
     generic_name: get("Generic (International Name)"),
     product_type: (get("Product Type") || "").toLowerCase() || null,
     strength: get("Strength"),
@@ -480,93 +1039,133 @@ function mapTemplateV3Row(raw: RawRow): Partial<CanonicalProduct> {
     description: get("Notes") || null,
     pieces_per_unit: parseNumber(raw["Pack Contents"]),
   };
-  return ensureCanonical(flat);
 }
 
-function mapCsvGenericRow(raw: RawRow): Partial<CanonicalProduct> {
-  const flat: CanonicalFlat = {};
-  const headers = Object.keys(raw);
-  const sampleRows: RawRow[] = [raw];
-  const hints = suggestHeaderMappings(headers, sampleRows);
-  const mapFromHint = (header: string): keyof CanonicalFlat | undefined => {
-    const hint = hints.find((h) => h.header === header && h.key);
-    switch (hint?.key) {
-      case "generic_name":
-        return "generic_name";
-      case "brand_name":
-        return "brand_name";
-      case "manufacturer":
-        return "manufacturer_name";
-      case "strength":
-        return "strength";
-      case "form":
-        return "form";
-      case "category":
-        return "category";
-      case "expiry_date":
-        return "expiry_date";
-      case "batch_no":
-        return "batch_no";
-      case "pack_contents":
-        return "pieces_per_unit";
-      case "on_hand":
-        return "on_hand";
-      case "unit_price":
-        return "unit_price";
-      case "coo":
-        return "coo";
-      case "sku":
-        return "sku";
-      case "requires_prescription":
-        return "requires_prescription";
-      case "is_controlled":
-        return "is_controlled";
-      case "storage_conditions":
-        return "storage_conditions";
-      case "notes":
-        return "description";
-      case "purchase_unit":
-        return "purchase_unit";
-      case "pieces_per_unit":
-        return "pieces_per_unit";
-      case "unit":
-        return "unit";
-      case "product_type":
-        return "product_type";
-      default:
-        return undefined;
-    }
-  };
+/**
+ * Map a `suggestHeaderMappings` hint key to the flat canonical key used by the row mappers.
+ * Signed: EyosiyasJ
+ */
+function hintKeyToFlat(key: string | undefined): keyof CanonicalFlat | undefined {
+  switch (key) {
+    case "generic_name":
+      return "generic_name";
+    case "brand_name":
+      return "brand_name";
+    case "manufacturer":
+      return "manufacturer_name";
+    case "strength":
+      return "strength";
+    case "form":
+      return "form";
+    case "category":
+      return "category";
+    case "expiry_date":
+      return "expiry_date";
+    case "batch_no":
+      return "batch_no";
+    case "pack_contents":
+      return "pieces_per_unit";
+    case "on_hand":
+      return "on_hand";
+    case "unit_price":
+      return "unit_price";
+    case "coo":
+      return "coo";
+    case "sku":
+      return "sku";
+    case "atc_code":
+      return "atc_code";
+    case "requires_prescription":
+      return "requires_prescription";
+    case "is_controlled":
+      return "is_controlled";
+    case "storage_conditions":
+      return "storage_conditions";
+    case "notes":
+      return "description";
+    case "purchase_unit":
+      return "purchase_unit";
+    case "pieces_per_unit":
+      return "pieces_per_unit";
+    case "unit":
+      return "unit";
+    case "product_type":
+      return "product_type";
+    default:
+      return undefined;
+  }
+}
 
-  const assignField = <K extends keyof CanonicalFlat>(key: K, value: CanonicalFlat[K]) => {
-    flat[key] = value;
-  };
+/**
+ * Resolve a generic CSV header to a flat key: semantic hint → synonym → fuzzy (≥0.8).
+ * Signed: EyosiyasJ
+ */
+type HeaderHints = ReturnType<typeof suggestHeaderMappings>;
+
+/**
+ * Header hints for a generic CSV, scored on the leading rows. The parse pipeline computes them once and
+ * shares them between row mapping and `describeColumnMapping`, so the reported mapping is the applied one.
+ * Signed: EyosiyasJ
+ */
+export function suggestGenericHeaderHints(rows: RawRow[]): HeaderHints {
+  return suggestHeaderMappings(Object.keys(rows[0] || {}), rows.slice(0, Math.min(rows.length, 25)));
+}
+
+function resolveGenericHeader(
+  header: string,
+  hints: HeaderHints
+): keyof CanonicalFlat | undefined {
+  const hint = hints.find((h) => h.header === header && h.key);
+  let mapped: keyof CanonicalFlat | undefined = hintKeyToFlat(hint?.key) ?? normalizeHeaderKey(header);
+  if (!mapped) {
+    const best = fuzzyHeaderMap(header);
+    if (best.score >= 0.8) mapped = best.key;
+  }
+  return mapped;
+}
+
+/**
+ * Assign a raw cell to a flat key with the same coercions the generic mapper applies
+ * (numbers for quantities/prices/pack, canonical dosage form, lower-cased product type).
+ * Signed: EyosiyasJ
+ */
+function assignFlatValue(flat: CanonicalFlat, key: keyof CanonicalFlat, value: unknown): void {
+  switch (key) {
+    case "on_hand":
+    case "unit_price":
+    case "pieces_per_unit":
+      (flat as any)[key] = parseNumber(value);
+      break;
+    case "form":
+      flat.form = canonicalizeForm(sanitizeString(value));
+      break;
+    case "product_type":
+      flat.product_type = sanitizeString(value).toLowerCase();
+      break;
+    default:
+      (flat as any)[key] = sanitizeString(value);
+  }
+}
+
+function mapCsvGenericRow(
+  raw: RawRow,
+  overrides?: ColumnOverrides,
+  hints: HeaderHints = suggestHeaderMappings(Object.keys(raw), [raw])
+): Partial<CanonicalProduct> {
+  const flat: CanonicalFlat = {};
+  // Fields claimed by caller overrides are not filled from auto-mapped columns
+  const claimed = new Set(Object.values(overrides ?? {}).filter(Boolean));
 
   for (const [key, value] of Object.entries(raw)) {
-    let mapped: keyof CanonicalFlat | undefined = mapFromHint(key) ?? normalizeHeaderKey(key);
-    if (!mapped) {
-      const best = fuzzyHeaderMap(key);
-      if (best.score >= 0.8) mapped = best.key;
+    let mapped: keyof CanonicalFlat | undefined;
+    if (overrides && Object.prototype.hasOwnProperty.call(overrides, key)) {
+      mapped = overrides[key] ?? undefined;
+    } else {
+      mapped = resolveGenericHeader(key, hints);
+      if (mapped && claimed.has(mapped)) mapped = undefined;
     }
     if (!mapped) continue;
-    const val = value;
-    switch (mapped) {
-      case "on_hand":
-      case "unit_price":
-        assignField(mapped, parseNumber(val));
-        break;
-      case "pieces_per_unit":
-        assignField(mapped, parseNumber(val));
-        break;
-      case "form":
-        flat.form = canonicalizeForm(sanitizeString(val));
-        break;
-      case "product_type":
-        assignField(mapped, sanitizeString(val).toLowerCase());
-        break;
-      default:
-        assignField(mapped, sanitizeString(val));
-    }
+    assignFlatValue(flat, mapped, value);
   }
   return ensureCanonical(flat);
 }
@@ -636,8 +1235,9 @@ export function inferHeaderlessAssignments(rows: RawRow[]): Record<string, keyof
     const vals = colValues[k];
     const n = vals.length || 1;
     const digitsOnly = (s: any) => String(s).trim().replace(/\D+/g, "");
-    const isGtin13 = (s: any) => /^\d{13}$/.test(digitsOnly(s));
-    const pGtin13 = vals.filter(isGtin13).length / n;
+    // Barcode column: GTIN-8/12/13/14 with a valid check digit (plain integer columns rarely pass)
+    const isGtin = (s: any) => /^\d+$/.test(String(s).trim()) && isValidGtin(digitsOnly(s));
+    const pGtin = vals.filter(isGtin).length / n;
     const hasAlpha = (s: any) => /[A-Za-z]/.test(String(s));
     const pAlpha = vals.filter(hasAlpha).length / n;
     const pInt = vals.filter(isInt).length / n;
@@ -655,8 +1255,8 @@ export function inferHeaderlessAssignments(rows: RawRow[]): Record<string, keyof
     const minInt = intVals.length ? Math.min(...intVals) : Infinity;
     const maxInt = intVals.length ? Math.max(...intVals) : -Infinity;
     score[k] = {};
-    score[k]["sku"] = pGtin13 >= 0.9 ? 0.98 : pGtin13 >= 0.6 ? 0.7 : 0.0;
-    score[k]["on_hand"] = pGtin13 >= 0.9 ? 0.0 : (pInt >= 0.9 && len <= 6 ? 0.9 + Math.max(0, 0.1 - pFloat) : pInt >= 0.7 ? 0.6 : 0.0);
+    score[k]["sku"] = pGtin >= 0.9 ? 0.98 : pGtin >= 0.6 ? 0.7 : 0.0;
+    score[k]["on_hand"] = pGtin >= 0.9 ? 0.0 : (pInt >= 0.9 && len <= 6 ? 0.9 + Math.max(0, 0.1 - pFloat) : pInt >= 0.7 ? 0.6 : 0.0);
     score[k]["unit_price"] = pNum >= 0.9 && pFloat >= 0.5 ? 0.9 : pFloat >= 0.3 ? 0.6 : 0.0;
     score[k]["expiry_date"] = pDate >= 0.8 ? 0.95 : pDate >= 0.5 ? 0.7 : 0.0;
     score[k]["batch_no"] = pNum < 0.4 && len >= 4 && len <= 20 && uniq >= 0.5 ? 0.8 : 0.0;
@@ -750,8 +1350,9 @@ export function inferHeaderlessGuesses(rows: RawRow[]): {
     const vals = colValues[k];
     const n = vals.length || 1;
     const digitsOnly = (s: any) => String(s).trim().replace(/\D+/g, "");
-    const isGtin13 = (s: any) => /^\d{13}$/.test(digitsOnly(s));
-    const pGtin13 = vals.filter(isGtin13).length / n;
+    // Barcode column: GTIN-8/12/13/14 with a valid check digit (plain integer columns rarely pass)
+    const isGtin = (s: any) => /^\d+$/.test(String(s).trim()) && isValidGtin(digitsOnly(s));
+    const pGtin = vals.filter(isGtin).length / n;
     const hasAlpha = (s: any) => /[A-Za-z]/.test(String(s));
     const pAlpha = vals.filter(hasAlpha).length / n;
     const pInt = vals.filter(isInt).length / n;
@@ -769,8 +1370,8 @@ export function inferHeaderlessGuesses(rows: RawRow[]): {
     const minInt = intVals.length ? Math.min(...intVals) : Infinity;
     const maxInt = intVals.length ? Math.max(...intVals) : -Infinity;
     score[k] = {};
-    score[k]["sku"] = pGtin13 >= 0.9 ? 0.98 : pGtin13 >= 0.6 ? 0.7 : 0.0;
-    score[k]["on_hand"] = pGtin13 >= 0.9 ? 0.0 : (pInt >= 0.9 && len <= 6 ? 0.9 + Math.max(0, 0.1 - pFloat) : pInt >= 0.7 ? 0.6 : 0.0);
+    score[k]["sku"] = pGtin >= 0.9 ? 0.98 : pGtin >= 0.6 ? 0.7 : 0.0;
+    score[k]["on_hand"] = pGtin >= 0.9 ? 0.0 : (pInt >= 0.9 && len <= 6 ? 0.9 + Math.max(0, 0.1 - pFloat) : pInt >= 0.7 ? 0.6 : 0.0);
     score[k]["unit_price"] = pNum >= 0.9 && pFloat >= 0.5 ? 0.9 : pFloat >= 0.3 ? 0.6 : 0.0;
     score[k]["expiry_date"] = pDate >= 0.8 ? 0.95 : pDate >= 0.5 ? 0.7 : 0.0;
     score[k]["batch_no"] = pNum < 0.4 && len >= 4 && len <= 20 && uniq >= 0.5 ? 0.8 : 0.0;
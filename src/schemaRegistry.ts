@@ -0,0 +1,63 @@
+/**
+ * Module: Source Schema Registry
+ * Purpose: Let callers plug in new source layouts (ERP exports such as Odoo, Sage or DHIS2 eLMIS)
+ * without editing `schema.ts`. A registered definition brings a detector, a row mapper (or a
+ * header → canonical path table) and its required-field contract; `detectSourceSchema` tries
+ * registered detectors by priority alongside the built-in ones.
+ * Registrations are per JavaScript realm: a worker registers its own schemas before `registerParseWorker`.
+ * Signed: EyosiyasJ
+ */
+
+import type { SchemaDefinition } from "./types.js";
+
+/** Priority of registered schemas that do not set one: after the exact built-in layouts, before generic CSV. */
+export const DEFAULT_SCHEMA_PRIORITY = 100;
+
+const BUILT_IN_SCHEMA_IDS = new Set(["template_v4", "template_v3", "concat_items", "legacy_items", "csv_generic", "unknown"]);
+
+const registry = new Map<string, SchemaDefinition>();
+
+/**
+ * Register (or replace, by `id`) a source schema. Returns a function that removes this registration.
+ * Throws when the definition cannot work: no `id`, a built-in `id`, no detector, or neither
+ * `mapRow` nor `columns`.
+ * Signed: EyosiyasJ
+ */
+export function registerSourceSchema(definition: SchemaDefinition): () => void {
+  const id = String(definition?.id ?? "").trim();
+  if (!id) throw new Error("registerSourceSchema: schema id is required");
+  if (BUILT_IN_SCHEMA_IDS.has(id)) throw new Error(`registerSourceSchema: '${id}' is a built-in schema id`);
+  if (!definition.detect) throw new Error(`registerSourceSchema: schema '${id}' has no detector`);
+  if (!definition.mapRow && !definition.columns) throw new Error(`registerSourceSchema: schema '${id}' needs mapRow or columns`);
+  const stored: SchemaDefinition = { ...definition, id };
+  registry.set(id, stored);
+  return () => {
+    if (registry.get(id) === stored) registry.delete(id);
+  };
+}
+
+/**
+ * Remove a registered schema; returns whether one was registered under `id`.
+ * Signed: EyosiyasJ
+ */
+export function unregisterSourceSchema(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Registered definition for `id`, if any (built-in schemas are not in the registry).
+ * Signed: EyosiyasJ
+ */
+export function getSourceSchema(id: string | undefined): SchemaDefinition | undefined {
+  return id ? registry.get(id) : undefined;
+}
+
+/**
+ * Registered schemas in detection order: highest priority first, then registration order.
+ * Signed: EyosiyasJ
+ */
+export function listSourceSchemas(): SchemaDefinition[] {
+  return Array.from(registry.values()).sort(
+    (a, b) => (b.priority ?? DEFAULT_SCHEMA_PRIORITY) - (a.priority ?? DEFAULT_SCHEMA_PRIORITY)
+  );
+}
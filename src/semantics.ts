@@ -17,6 +17,7 @@ export type CanonicalKey =
   | "unit_price"
   | "coo"
   | "sku"
+  | "atc_code"
   | "manufacturer"
   | "notes"
   | "requires_prescription"
@@ -48,6 +49,7 @@ const defs: CanonicalDef[] = [
   { key: "unit_price", type: "number", synonyms: ["unit price", "price", "cost", "buy price", "purchase price", "selling price", "sale price"] },
   { key: "coo", type: "text", synonyms: ["country of manufacture", "country of origin", "origin", "coo", "made in", "manufacturing country", "country"] },
   { key: "sku", type: "text", synonyms: ["serial number", "serial", "s/n", "code", "barcode", "gtin", "ean", "product code", "uid", "serial no"] },
+  { key: "atc_code", type: "text", synonyms: ["atc", "atc code", "atc class", "atc classification", "who atc", "who atc code"] },
   { key: "manufacturer", type: "text", synonyms: ["manufacturer", "mfr", "company", "company name", "supplier", "producer"] },
   { key: "notes", type: "text", synonyms: ["notes", "comments", "remarks", "description", "details"] },
   { key: "requires_prescription", type: "text", synonyms: ["requires prescription", "prescription", "rx", "needs prescription" ] },
@@ -0,0 +1,168 @@
+/**
+ * Module: Structured Strength
+ * Purpose: Turn strength display strings into numbers for dosing and price-per-mg reporting.
+ * Model: a list of components (one per active ingredient), each `{ value, unit }` with an optional
+ * denominator `per: { value, unit }` and, for percentages, a `basis` (`w/w`, `w/v`, `v/v`).
+ * Recognised shapes:
+ * - single: `500mg`, `1.5 g`, `100000IU`, `1% w/w`
+ * - per-volume / per-unit: `5mg/5ml`, `100000IU/ml`, `20mg/g`
+ * - combinations: `500mg+125mg`, `80/480mg` (unit shared from the right), `200mg+40mg/5ml`
+ *   (trailing denominator applies to every component)
+ * `splitNameGenericStrengthForm` strength blocks use the same notation and parse directly.
+ * Normalisation (opt-in): one canonical unit per dimension — mass → `mg`, volume → `ml`,
+ * `% w/v` → `mg/ml`, `% w/w` → `mg/g` (1% = 10 mg per ml/g). IU, mmol, mEq, bare `%` and `% v/v` are kept.
+ * Signed: EyosiyasJ
+ */
+
+import type { ParsedStrength, StrengthComponent, StrengthUnit } from "./types.js";
+
+const UNIT_ALIASES: Record<string, StrengthUnit> = {
+  mg: "mg",
+  mgs: "mg",
+  mcg: "mcg",
+  ug: "mcg",
+  g: "g",
+  gm: "g",
+  kg: "kg",
+  ml: "ml",
+  l: "l",
+  iu: "iu",
+  "%": "%",
+  mmol: "mmol",
+  meq: "meq",
+};
+
+const VOLUME_UNITS = new Set<StrengthUnit>(["ml", "l"]);
+const AMOUNT_RE = /^(\d+(?:\.\d+)?)([a-z%]*)$/;
+
+/**
+ * Parse a strength string into components; `null` when any part is not a number+unit amount.
+ * Signed: EyosiyasJ
+ */
+export function parseStrength(raw: unknown): ParsedStrength | null {
+  const display = String(raw ?? "").trim();
+  if (!display || display.toUpperCase() === "NA") return null;
+  let s = display
+    .toLowerCase()
+    .replace(/[μµ]g/g, "mcg")
+    // `1,000mg` thousands separator; a leading `0,` is always a decimal comma (`0,125mg` is 0.125 mg)
+    .replace(/(^|[^\d.,])([1-9]\d{0,2}(?:,\d{3})+)(?![\d,])/g, (_, pre, n) => pre + n.replace(/,/g, ""))
+    .replace(/(\d),(\d)/g, "$1.$2")         // `1,5g` decimal comma
+    .replace(/\s+/g, "")
+    .replace(/(\d)-%/g, "$1%")            // `0.64-%` → `0.64%`
+    .replace(/([a-z%])-(\d)/g, "$1+$2");  // `200mg-40mg` → `200mg+40mg`
+
+  // Percentage basis: `1%w/w`, `1%-w/w`, `12-%w/w`
+  let basis: StrengthComponent["basis"];
+  const basisMatch = /-?%-?(w\/w|w\/v|v\/v)$/.exec(s);
+  if (basisMatch) {
+    basis = basisMatch[1] as StrengthComponent["basis"];
+    s = s.slice(0, basisMatch.index) + "%";
+  }
+
+  // Trailing denominator: `/5ml`, `/ml`, `/g` (a bare unit or a volume is a denominator, not an ingredient)
+  let per: StrengthComponent["per"];
+  const perMatch = /\/(\d+(?:\.\d+)?)?([a-z]+)$/.exec(s);
+  if (perMatch) {
+    const unit = UNIT_ALIASES[perMatch[2]];
+    if (unit && (!perMatch[1] || VOLUME_UNITS.has(unit))) {
+      per = { value: perMatch[1] ? Number(perMatch[1]) : 1, unit };
+      s = s.slice(0, perMatch.index);
+    }
+  }
+
+  const parts = s.split(/[+\/&]/);
+  if (parts.some((p) => !p)) return null;
+  const amounts: Array<{ value: number; unit?: StrengthUnit }> = [];
+  for (const p of parts) {
+    const m = AMOUNT_RE.exec(p);
+    if (!m) return null;
+    const unit = m[2] ? UNIT_ALIASES[m[2]] : undefined;
+    if (m[2] && !unit) return null;
+    amounts.push({ value: Number(m[1]), unit });
+  }
+  // `80/480mg`: unitless amounts take the unit of the next amount to their right
+  for (let i = amounts.length - 2; i >= 0; i--) amounts[i].unit = amounts[i].unit ?? amounts[i + 1].unit;
+  if (amounts.some((a) => !a.unit)) return null;
+
+  const components = amounts.map((a) => {
+    const c: StrengthComponent = { value: a.value, unit: a.unit as StrengthUnit };
+    if (per) c.per = { ...per };
+    if (basis && c.unit === "%") c.basis = basis;
+    return c;
+  });
+  return { display, components };
+}
+
+const MASS_TO_MG: Partial<Record<StrengthUnit, number>> = { mcg: 0.001, mg: 1, g: 1000, kg: 1000000 };
+const VOLUME_TO_ML: Partial<Record<StrengthUnit, number>> = { ml: 1, l: 1000 };
+/** Solid unit-dose forms: one tablet/capsule holds at most a few grams of active ingredient. */
+const SOLID_UNIT_FORMS = new Set(["tablet", "capsule"]);
+const MAX_SOLID_DOSE_MG = 5000;
+const MAX_CONCENTRATION_MG_PER_ML = 1000;
+
+const round = (n: number): number => Math.round(n * 1e6) / 1e6;
+
+function toCanonicalAmount(value: number, unit: StrengthUnit): { value: number; unit: StrengthUnit } {
+  if (MASS_TO_MG[unit] !== undefined) return { value: round(value * MASS_TO_MG[unit]!), unit: "mg" };
+  if (VOLUME_TO_ML[unit] !== undefined) return { value: round(value * VOLUME_TO_ML[unit]!), unit: "ml" };
+  return { value, unit };
+}
+
+/**
+ * Render components back to a compact display string (`500mg`, `500mg+125mg`, `200mg+40mg/5ml`,
+ * `10mg/ml`, `1%w/w`). A denominator shared by all components is written once at the end.
+ * Signed: EyosiyasJ
+ */
+export function formatStrength(components: StrengthComponent[]): string {
+  const perKey = (c: StrengthComponent) => (c.per ? `${c.per.value === 1 ? "" : c.per.value}${c.per.unit}` : "");
+  const shared = components.length > 1 && components.every((c) => perKey(c) === perKey(components[0]));
+  const amount = (c: StrengthComponent) => `${c.value}${c.unit}${c.basis ?? ""}`;
+  if (shared) {
+    const per = perKey(components[0]);
+    return components.map(amount).join("+") + (per ? `/${per}` : "");
+  }
+  return components.map((c) => amount(c) + (c.per ? `/${perKey(c)}` : "")).join("+");
+}
+
+/**
+ * Convert a parsed strength to canonical units (see module header); `display` is re-rendered.
+ * Equivalent strengths (`0.5g`, `500mg`, `500000mcg`) normalise to the same string.
+ * Signed: EyosiyasJ
+ */
+export function normalizeStrengthUnits(parsed: ParsedStrength): ParsedStrength {
+  const components = parsed.components.map((c): StrengthComponent => {
+    if (c.unit === "%" && (c.basis === "w/v" || c.basis === "w/w") && !c.per) {
+      return { value: round(c.value * 10), unit: "mg", per: { value: 1, unit: c.basis === "w/v" ? "ml" : "g" } };
+    }
+    const out: StrengthComponent = { ...toCanonicalAmount(c.value, c.unit) };
+    if (c.per) out.per = toCanonicalAmount(c.per.value, c.per.unit);
+    if (c.basis) out.basis = c.basis;
+    return out;
+  });
+  return { display: formatStrength(components), components };
+}
+
+/**
+ * Physical plausibility check; returns a reason when a strength cannot be right:
+ * non-positive amounts, percentages above 100, more than 5 g of one ingredient in a tablet/capsule,
+ * or concentrations above 1 g/ml.
+ * Signed: EyosiyasJ
+ */
+export function strengthImplausibility(parsed: ParsedStrength, form?: string | null): string | undefined {
+  const f = String(form ?? "").trim().toLowerCase();
+  for (const c of parsed.components) {
+    if (!(c.value > 0) || (c.per && !(c.per.value > 0))) return `strength ${parsed.display} has a zero amount`;
+    if (c.unit === "%" && c.value > 100) return `strength ${parsed.display} exceeds 100%`;
+    const mg = MASS_TO_MG[c.unit] !== undefined ? c.value * MASS_TO_MG[c.unit]! : undefined;
+    if (mg === undefined) continue;
+    if (!c.per && SOLID_UNIT_FORMS.has(f) && mg > MAX_SOLID_DOSE_MG) {
+      return `strength ${parsed.display} is implausible for a ${f} (over ${MAX_SOLID_DOSE_MG / 1000}g per unit)`;
+    }
+    const perMl = c.per && VOLUME_TO_ML[c.per.unit] !== undefined ? c.per.value * VOLUME_TO_ML[c.per.unit]! : undefined;
+    if (perMl && mg / perMl > MAX_CONCENTRATION_MG_PER_ML) {
+      return `strength ${parsed.display} is implausible (over ${MAX_CONCENTRATION_MG_PER_ML / 1000}g/ml)`;
+    }
+  }
+  return undefined;
+}
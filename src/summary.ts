@@ -0,0 +1,99 @@
+/**
+ * Module: Import Summary
+ * Purpose: Stock valuation and import counts for `meta.summary`, computed once over the final rows so
+ * web and mobile previews stop recomputing (and disagreeing on) the same totals from `rows`.
+ * Rows are fed in output order; merged duplicates are counted once with their folded quantity.
+ * Signed: EyosiyasJ
+ */
+
+import type { CanonicalProduct, ImportSummary } from "./types.js";
+import { productKey } from "./duplicates.js";
+
+/** Days ahead of the reference date within which a batch counts as near expiry. */
+export const DEFAULT_NEAR_EXPIRY_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+const present = (v: unknown): string | undefined => {
+  const s = String(v ?? "").trim();
+  return s && !/^n\/?a$/i.test(s) ? s : undefined;
+};
+
+/**
+ * Create a stateful summary; feed returned rows via `add` and read the totals with `result()`.
+ * Expiry is counted against the UTC day of `referenceDate` (default today).
+ * Signed: EyosiyasJ
+ */
+export function createSummaryTracker(options: { nearExpiryDays?: number; referenceDate?: Date } = {}) {
+  const horizon = options.nearExpiryDays;
+  const nearExpiryDays = typeof horizon === "number" && Number.isFinite(horizon) && horizon >= 0 ? horizon : DEFAULT_NEAR_EXPIRY_DAYS;
+  const now = options.referenceDate ?? new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const products = new Set<string>();
+  const valueByUmbrella: Record<string, number> = {};
+  const valueByCountry: Record<string, number> = {};
+  let rows = 0;
+  let totalOnHand = 0;
+  let totalValue = 0;
+  let expiredBatches = 0;
+  let nearExpiryBatches = 0;
+  let rowsMissingPrice = 0;
+
+  const add = (row: CanonicalProduct): void => {
+    rows++;
+    products.add(productKey(row));
+    const onHand = Number(row.batch.on_hand) || 0;
+    totalOnHand += onHand;
+    const price = row.batch.unit_price;
+    if (typeof price === "number" && Number.isFinite(price)) {
+      const value = onHand * price;
+      totalValue += value;
+      const umbrella = present(row.product.umbrella_category) ?? "unclassified";
+      const country = present(row.batch.coo ?? row.identity?.coo) ?? "unknown";
+      valueByUmbrella[umbrella] = (valueByUmbrella[umbrella] ?? 0) + value;
+      valueByCountry[country] = (valueByCountry[country] ?? 0) + value;
+    } else {
+      rowsMissingPrice++;
+    }
+    const expiry = /^\d{4}-\d{2}-\d{2}$/.test(row.batch.expiry_date ?? "")
+      ? Date.parse(`${row.batch.expiry_date}T00:00:00.000Z`)
+      : NaN;
+    if (Number.isNaN(expiry)) return;
+    if (expiry <= today) expiredBatches++;
+    else if (expiry - today <= nearExpiryDays * DAY_MS) nearExpiryBatches++;
+  };
+
+  const roundAll = (m: Record<string, number>) =>
+    Object.fromEntries(Object.entries(m).map(([k, v]) => [k, round2(v)]));
+
+  const result = (): ImportSummary => ({
+    rows,
+    distinctProducts: products.size,
+    totalOnHand,
+    totalValue: round2(totalValue),
+    valueByUmbrella: roundAll(valueByUmbrella),
+    valueByCountry: roundAll(valueByCountry),
+    expiredBatches,
+    nearExpiryBatches,
+    nearExpiryDays,
+    rowsMissingPrice,
+    referenceDate: new Date(today).toISOString().slice(0, 10),
+  });
+
+  return { add, result };
+}
+
+/**
+ * Summary of a finished row list (buffered parses and merged multi-sheet results).
+ * Signed: EyosiyasJ
+ */
+export function summarizeRows(
+  rows: CanonicalProduct[],
+  options?: { nearExpiryDays?: number; referenceDate?: Date }
+): ImportSummary {
+  const tracker = createSummaryTracker(options);
+  for (const row of rows) tracker.add(row);
+  return tracker.result();
+}
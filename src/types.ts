@@ -37,11 +37,15 @@ export interface CanonicalProduct {
       | "ANTIDOTES_POISONING"
       | "RADIOCONTRAST"
       | "MISC"
+      | (string & {})  // Caller umbrellas (`ParseOptions.umbrellaClassifier`); keeps the built-in IDs as literals
       | null;
     requires_prescription?: boolean | null;
     is_controlled?: boolean | null;
     storage_conditions?: string | null;
     description?: string | null;
+    strength_parsed?: ParsedStrength;  // Numeric components of `strength` (absent when unparseable)
+    ingredients?: ProductIngredient[];  // Active ingredients split from `generic_name`, paired with strength components
+    formulary?: FormularyMatch;         // Formulary lookup of `generic_name` (only with `ParseOptions.formulary`)
   };
   batch: {
     batch_no: string;
@@ -58,29 +62,393 @@ export interface CanonicalProduct {
   // These are kept optional to preserve backward compatibility until backends adopt them.
   identity?: {
     cat?: string | null;
+    atc_code?: string | null;    // WHO ATC code (`J01CA04`, or a group prefix such as `J01C`)
     frm?: string | null;
     pkg?: string | null;
     coo?: string | null;
     sku?: string | null;
+    serial_no?: string | null;   // Unit serial (GS1 AI 21) decoded from scanned barcode payloads
     purchase_unit?: string | null;
     unit?: string | null;
     product_type?: string | null;
   };
 }
 
+export type StrengthUnit = "mg" | "mcg" | "g" | "kg" | "ml" | "l" | "iu" | "%" | "mmol" | "meq";
+
+/**
+ * One active-ingredient amount of a structured strength (see `parseStrength`).
+ */
+export interface StrengthComponent {
+  value: number;
+  unit: StrengthUnit;
+  per?: { value: number; unit: StrengthUnit };
+  basis?: "w/w" | "w/v" | "v/v";  // Percentages only
+}
+
+export interface ParsedStrength {
+  display: string;                  // Strength string as shown (`product.strength`)
+  components: StrengthComponent[];  // In source order; one per active ingredient
+}
+
+/**
+ * One active ingredient of `product.ingredients` (see `buildIngredients`).
+ */
+export interface ProductIngredient {
+  name: string;
+  strength?: StrengthComponent;  // Paired by position with `strength_parsed.components`
+  umbrella_category?: NonNullable<CanonicalProduct["product"]["umbrella_category"]>;
+}
+
+/**
+ * Caller-supplied formulary record: one INN with its spelling aliases and known brands.
+ */
+export interface FormularyEntry {
+  inn: string;        // Canonical International Nonproprietary Name (`Paracetamol`, `Amoxicillin + Clavulanic Acid`)
+  id?: string;        // Caller's formulary/catalogue identifier
+  aliases?: string[]; // Alternative generic spellings/names (`Acetaminophen`)
+  brands?: string[];  // Brand names resolving to this INN (`Panadol`)
+}
+
+/**
+ * Result of matching a generic name against a formulary.
+ * `method`: `exact` (INN), `alias`, `brand` (brand→generic), `fuzzy` (misspelling; `confidence` < 1).
+ */
+export interface FormularyMatch {
+  inn: string;
+  confidence: number;  // 0..1; 1 for exact/alias/brand lookups
+  method: "exact" | "alias" | "brand" | "fuzzy";
+  formulary_id?: string;
+}
+
+/**
+ * Pluggable formulary: anything that can resolve a generic name. `createFormulary(entries)` builds
+ * the default implementation; callers may supply their own (e.g. backed by a server lookup cache).
+ */
+export interface Formulary {
+  match(name: string): FormularyMatch | null;
+}
+
+/**
+ * Caller-supplied brand table record: a brand (plus spelling/pack aliases) and the INN it contains.
+ */
+export interface BrandTableEntry {
+  brand: string;       // Brand as it should appear in `brand_name` (`Augmentin`)
+  inn: string;         // Generic it resolves to (`Amoxicillin + Clavulanic Acid`)
+  aliases?: string[];  // Other spellings (`Augmentin Duo`, `Panadol Advance`)
+}
+
+export interface BrandResolution {
+  brand: string;
+  inn: string;
+}
+
+/**
+ * Pluggable brand → generic lookup; `createBrandTable(entries)` builds the default implementation.
+ */
+export interface BrandTable {
+  resolve(name: string): BrandResolution | null;
+}
+
+/** Umbrella ID: a built-in ID or the ID of a caller-supplied rule. */
+export type UmbrellaId = NonNullable<CanonicalProduct["product"]["umbrella_category"]>;
+
+/**
+ * Text fields the umbrella classifier scores. `ingredients` (2+) switches the generic signal to
+ * per-ingredient shares for combination products.
+ */
+export interface UmbrellaClassifierInput {
+  generic_name?: string | null;
+  brand_name?: string | null;
+  category?: string | null;
+  description?: string | null;
+  ingredients?: string[];
+}
+
+/**
+ * Caller-supplied umbrella rule. A new `id` adds an umbrella (needs `label` and at least one
+ * keyword); a built-in `id` adds its keywords to that rule, or with `replace` swaps out the
+ * built-in keyword lists and label. Keywords are matched case- and punctuation-insensitively.
+ */
+export interface UmbrellaRuleEntry {
+  id: string;                           // UPPER_SNAKE_CASE (`HERBAL`, `ANTI_INFECTIVES`)
+  label?: string;
+  description?: string;
+  categoryKeywords?: string[];
+  genericKeywords?: string[];
+  deviceKeywords?: string[];
+  negativeCategoryKeywords?: string[];
+  negativeGenericKeywords?: string[];
+  replace?: boolean;
+}
+
+/** Rule as the classifier applies it (built-in rules merged with caller entries). */
+export interface UmbrellaRule {
+  id: UmbrellaId;
+  label: string;
+  description?: string;
+  categoryKeywords: string[];
+  genericKeywords: string[];
+  deviceKeywords?: string[];
+  negativeCategoryKeywords?: string[];
+  negativeGenericKeywords?: string[];
+}
+
+/**
+ * Problem found in caller rules by `validateUmbrellaRules`:
+ * - `E_UMBRELLA_RULE_INVALID`: bad ID, or a new umbrella without label/keywords (rule skipped);
+ * - `E_UMBRELLA_RULE_DUPLICATE`: ID supplied more than once (later entries skipped);
+ * - `W_UMBRELLA_KEYWORD_COLLISION`: category/generic keyword also used by another umbrella (kept).
+ */
+export interface UmbrellaRuleIssue {
+  code: "E_UMBRELLA_RULE_INVALID" | "E_UMBRELLA_RULE_DUPLICATE" | "W_UMBRELLA_KEYWORD_COLLISION";
+  ruleId: string;
+  message: string;
+  keyword?: string;
+  otherRuleId?: UmbrellaId;
+}
+
+/**
+ * Pluggable umbrella classifier; `createUmbrellaClassifier(entries)` builds one from the built-in
+ * rules plus caller entries.
+ */
+export interface UmbrellaClassifier {
+  rules: UmbrellaRule[];
+  issues?: UmbrellaRuleIssue[];  // Reported as file-level errors when the classifier is used in a parse
+  explain(input: UmbrellaClassifierInput): UmbrellaExplanation;
+  classifyIngredient(name: string | null | undefined): UmbrellaId | undefined;
+}
+
+/**
+ * One rule's row in `explainUmbrellaCategory`: points per signal (`negative` is the penalty
+ * subtracted) and the keywords that produced them.
+ */
+export interface UmbrellaRuleScore {
+  id: UmbrellaId;
+  score: number;
+  signals: { category: number; generic: number; description: number; device: number; negative: number };
+  matched: { category: string[]; generic: string[]; description: string[]; device: string[]; negative: string[] };
+}
+
+/**
+ * Ranked umbrella scoring for one product. `result` is set only when the best rule clears
+ * `thresholds`; otherwise `withheld` says why.
+ */
+export interface UmbrellaExplanation {
+  result?: UmbrellaId;
+  withheld?: "no_signal" | "below_min_score" | "too_close";
+  best?: UmbrellaId;
+  bestScore: number;
+  secondScore: number;
+  separation: number;               // bestScore - secondScore
+  thresholds: { minScore: number; minSeparation: number };
+  ranked: UmbrellaRuleScore[];      // Every rule, highest score first
+}
+
 export type SourceSchema =
-  | "template_v3"    // Official MedWay Excel template
+  | "template_v4"    // Official MedWay Excel template (current)
+  | "template_v3"    // Official MedWay Excel template (previous version, still parsed)
   | "concat_items"   // Items.xlsx-style concatenated fields (new name)
   | "legacy_items"   // Alias for backward compatibility
   | "csv_generic"    // Generic CSV with fuzzy mapping
-  | "unknown";       // Unrecognized schema
+  | "unknown"        // Unrecognized schema
+  | (string & {});   // Registered schema (`registerSourceSchema`); keeps the built-in IDs as literals
+
+/**
+ * What `detectSourceSchema` sees of a file: the header row (or `col_N` keys when headerless),
+ * the leading sample rows, and template metadata from a workbook `__meta` sheet.
+ */
+export interface SchemaDetectionContext {
+  headers: string[];
+  sampleRows: Array<Record<string, string | number | null>>;
+  headerMeta?: { templateVersion?: string; headerChecksum?: string };
+  origin?: "workbook" | "text";
+}
+
+/**
+ * How a registered schema recognises its files:
+ * - `headers`: header names (case- and spacing-insensitive); `exact` needs the same set, `subset`
+ *   (default) needs all listed headers present;
+ * - `checksum`: `headersChecksum` of the ordered header row;
+ * - `predicate`: `test` returns true, or a string to report as the reason.
+ */
+export type SchemaDetector =
+  | { type: "headers"; headers: string[]; match?: "exact" | "subset" }
+  | { type: "checksum"; checksum: string }
+  | { type: "predicate"; test(context: SchemaDetectionContext): boolean | string };
+
+/**
+ * Caller-defined source schema (ERP export, national eLMIS, …). Rows are mapped by `mapRow`, or by
+ * `columns` (header → canonical path, same paths as `ParseOptions.columnMapping`) when no mapper is
+ * given. `requiredFields` (canonical paths) replaces the default required-field checks.
+ */
+export interface SchemaDefinition {
+  id: string;
+  label?: string;
+  priority?: number;          // Higher runs first; default 100 (after exact built-in layouts, before generic CSV)
+  detect: SchemaDetector;
+  columns?: Record<string, string>;
+  mapRow?(raw: Record<string, string | number | null>, rowIndex: number): Partial<CanonicalProduct> | null;
+  requiredFields?: string[];
+}
+
+/**
+ * How a header row differs from the template it was meant to be (see `diagnoseTemplateDrift`).
+ * `renamed` pairs a file header with the template header it stands for (case/spacing changes score 1);
+ * drift is `cosmetic` when every template header is accounted for and nothing was inserted.
+ */
+export interface TemplateDrift {
+  version: string;
+  schema: SourceSchema;
+  declared: boolean;            // Version named in __meta rather than inferred from header overlap
+  expectedChecksum: string;
+  actualChecksum: string;
+  declaredChecksum?: string;    // header_checksum from __meta, if present
+  missing: string[];            // Template headers with no counterpart in the file
+  extra: string[];              // File headers that match no template header
+  renamed: Array<{ from: string; to: string; score: number }>;
+  reordered: boolean;
+  cosmetic: boolean;            // Only renames/reordering: the template mapping is kept
+}
+
+/** Detector that decided `meta.sourceSchema` and why (see `explainSourceSchema`). */
+export interface SchemaDetection {
+  schema: SourceSchema;
+  detector: string;           // `template_meta`, `template_checksum`, `template_drift`, `items_headers`, `headerless`, `product_headers`, `none`, or `registered:<id>`
+  reason: string;
+  priority?: number;          // Absent for `none`
+  tried: string[];            // Detectors evaluated before the one that fired, in order
+}
 
 export type AnalysisMode = "fast" | "deep";
+export type DateOrder = "DMY" | "MDY" | "YMD";
+export type DuplicatePolicy = "report" | "merge" | "keep_first";
 export type ValidationMode = "full" | "errorsOnly" | "none";
 
 export interface ParseOptions {
   mode?: AnalysisMode;
   validationMode?: ValidationMode;
+  /**
+   * Caller column mapping: source header (or `col_N` for headerless files) → canonical path
+   * (e.g. `"Qty Avl": "batch.on_hand"`, `"col_3": "product.strength"`), or `null` to ignore the column.
+   * Replaces header suggestions / headerless inference for the listed columns.
+   */
+  columnMapping?: Record<string, string | null>;
+  /**
+   * Saved supplier profiles; a profile whose header fingerprint matches (exactly, or by header-set
+   * overlap ≥ `profileMatchThreshold`, default 0.8) is applied automatically. Explicit `columnMapping`
+   * entries still win over the profile.
+   */
+  profiles?: MappingProfile[];
+  profileMatchThreshold?: number;
+  /**
+   * Workbook sheets to parse: `"all"` for every data-bearing sheet, or a list of sheet names.
+   * Omitted: single main sheet (`Products` or the first sheet).
+   */
+  sheets?: "all" | string[];
+  /**
+   * Day/month order for numeric expiry dates. Default `DMY`. `auto` scans the expiry column
+   * sample for unambiguous values (a part above 12) and flags rows that remain ambiguous.
+   */
+  dateOrder?: DateOrder | "auto";
+  /**
+   * Rows sharing product identity (generic + strength + form + manufacturer) and batch number:
+   * `report` flags later rows, `merge` sums `on_hand` into the first, `keep_first` drops later rows.
+   * Omitted: no duplicate pass.
+   */
+  duplicatePolicy?: DuplicatePolicy;
+  /**
+   * Near-expiry horizon in days (e.g. 180 for a six-month shelf-life rule): batches expiring within it
+   * get `W_NEAR_EXPIRY` with `daysRemaining`, and `meta.summary.nearExpiryBatches` uses it.
+   * Omitted: no warning; the summary counts within 90 days.
+   */
+  nearExpiryDays?: number;
+  /**
+   * Day to check expiry against instead of today (stock-take date, backdated imports, audits,
+   * deterministic tests): a `Date` (its UTC calendar day) or a `yyyy-MM-dd` string. Drives `expired`,
+   * `W_NEAR_EXPIRY` and `meta.summary`. An invalid value raises `E_REFERENCE_DATE` and today is used.
+   */
+  referenceDate?: Date | string;
+  /**
+   * Rewrite strengths in one canonical unit per dimension (mass → mg, volume → ml, `% w/v` → mg/ml,
+   * `% w/w` → mg/g) so `0.5g` and `500mg` compare equal. Default off: strengths keep the source units.
+   */
+  normalizeStrengthUnits?: boolean;
+  /**
+   * Return valid GTINs found in a barcode column or GS1 payload left-padded to GTIN-14 (`identity.sku`).
+   * Barcodes are validated either way (`E_GTIN_CHECKDIGIT`, `W_GTIN_PADDED`); serial / SKU columns are not.
+   */
+  gtin14?: boolean;
+  /**
+   * Known INNs to match `generic_name` against (exact, alias, brand or fuzzy); rows gain
+   * `product.formulary`; alias/fuzzy matches rewrite `generic_name` to the INN and brand matches
+   * are resolved like `brandTable` hits. Pass plain
+   * entries (see `parseFormularyJson` / `parseFormularyCsv`) when parsing in a worker.
+   */
+  formulary?: Formulary | FormularyEntry[];
+  /**
+   * Brand names to recognise in `generic_name`: a hit moves the brand to `brand_name`, puts the INN in
+   * `generic_name` and raises `W_BRAND_IN_GENERIC`. Formulary `brands` resolve the same way.
+   * Pass plain entries (see `parseBrandTableJson` / `parseBrandTableCsv`) when parsing in a worker.
+   */
+  brandTable?: BrandTable | BrandTableEntry[];
+  /**
+   * Umbrella rules to classify with: extra or overriding rules on top of the built-in ones, or a
+   * ready classifier. Rule problems are reported as file-level errors at row 1 (see
+   * `validateUmbrellaRules`). Pass plain entries when parsing in a worker.
+   */
+  umbrellaClassifier?: UmbrellaClassifier | UmbrellaRuleEntry[];
+  /**
+   * Debug: record the umbrella scoring for every row in `meta.categoryExplanations`
+   * (ranked rules, matched keywords, separation, withheld reason). Large; leave off in production.
+   */
+  explainCategories?: boolean;
+  /**
+   * Progress listener: `read` → `detect` → `map` → `sanitize`, row phases every 500 rows and on the
+   * last row. The text fallback's header/headerless attempts report as one run (totals doubled).
+   */
+  onProgress?: ParseProgressCallback;
+  /**
+   * Cancels the parse: checked before detection and at each progress tick (before every row in
+   * `parseProductsStream`); an aborted parse rejects (or, for `parseProductsCore`, throws) with
+   * `signal.reason` or an `AbortError`. The buffered parse is synchronous once the file is read, so on
+   * the main thread an abort only lands mid-parse through `parseInWorker`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Persistable supplier mapping profile keyed by header fingerprint (`headersChecksum`).
+ * Build one from a parse result with `createMappingProfile(meta)`.
+ */
+export interface MappingProfile {
+  id: string;
+  name?: string;
+  fingerprint: string;                           // headersChecksum of the ordered header row
+  headers: string[];                             // Header row, for fuzzy header-set matching
+  columnMapping: Record<string, string | null>;  // Same shape as ParseOptions.columnMapping
+  concatMode?: "none" | "name_only" | "full";
+  dateFormat?: string;                           // e.g. "DD/MM/YYYY"
+  locale?: string;                               // e.g. "en-GB"
+}
+
+/**
+ * Import summary over the rows a parse returns (after sanitising and the duplicate pass), so every
+ * client shows the same totals. Values are `on_hand * unit_price`, rounded to 2 decimals; rows without
+ * a price count in `rowsMissingPrice` and add no value. Expiry is compared with `referenceDate` (UTC day).
+ */
+export interface ImportSummary {
+  rows: number;
+  distinctProducts: number;                   // By generic name + strength + form + manufacturer
+  totalOnHand: number;
+  totalValue: number;
+  valueByUmbrella: Record<string, number>;    // Umbrella id, or `unclassified`
+  valueByCountry: Record<string, number>;     // Country of origin (ISO2), or `unknown`
+  expiredBatches: number;
+  nearExpiryBatches: number;                  // Not expired, expiring within `nearExpiryDays`
+  nearExpiryDays: number;
+  rowsMissingPrice: number;
+  referenceDate: string;                      // yyyy-MM-dd
 }
 
 export interface ParsedRowError {
@@ -88,6 +456,9 @@ export interface ParsedRowError {
   field: string;  // Canonical field path, e.g. "product.generic_name", "batch.expiry_date"
   code: string;   // e.g. "missing_required", "invalid_format", "invalid_value", "expired"
   message: string;
+  sheet?: string; // Workbook sheet the row belongs to (multi-sheet parsing only)
+  relatedRow?: number; // Row this error refers back to (e.g. first occurrence of a duplicate batch)
+  daysRemaining?: number; // `W_NEAR_EXPIRY`: days from today until the expiry date
 }
 
 export interface ParsedImportResult {
@@ -95,6 +466,7 @@ export interface ParsedImportResult {
   errors: ParsedRowError[]; // All row-level and file-level errors
   meta: {
     sourceSchema: SourceSchema;
+    schemaDetection?: SchemaDetection;
     headerMode?: "headers" | "none" | "untrusted";
     fallbackUsed?: boolean;
     columnGuesses?: Array<{
@@ -105,9 +477,63 @@ export interface ParsedImportResult {
     concatenatedColumns?: Array<{ index: number; reason: string }>;
     dirtyColumns?: Array<{ index: number; header: string }>;
     decomposedColumns?: Array<{ index: number; header: string }>;
+    // Mapping actually applied: column → canonical path (null = unmapped); replayable as `options.columnMapping`
+    columnMapping?: Record<string, string | null>;
+    columnMappingOverrides?: string[];  // Columns whose mapping came from `options.columnMapping` or a profile
+    profileId?: string;                 // Supplier profile applied automatically, if any
+    profileMatch?: { id: string; kind: "exact" | "fuzzy"; score: number };
+    // Expiry date order applied and why (option | profile | detected | default)
+    dateOrder?: {
+      order: DateOrder;
+      source: "option" | "profile" | "detected" | "default";
+      evidence?: { DMY: number; MDY: number; YMD: number; ambiguous: number; examples: string[] };
+    };
+    // Stock valuation and counts over the returned rows (see `ImportSummary`)
+    summary?: ImportSummary;
+    // Duplicate product+batch groups found by the `duplicatePolicy` pass
+    duplicatePolicy?: DuplicatePolicy;
+    duplicateGroups?: Array<{
+      key: string;
+      generic_name: string;
+      batch_no: string;
+      firstRow: number;
+      rows: number[];
+      totalOnHand: number;
+      action: "reported" | "merged" | "dropped";
+      conflicts?: string[];  // Fields that differed across the group (merge only)
+      sheet?: string;        // Multi-sheet parsing: groups are per sheet
+    }>;
+    // Debug (`explainCategories`): umbrella scoring per row; `source` tells whether the 3-letter code, the ATC code or the text decided
+    categoryExplanations?: Array<{
+      row: number;
+      sheet?: string;
+      umbrella_category?: UmbrellaId;
+      source: "code" | "atc" | "text" | "none";
+      explanation: UmbrellaExplanation;
+    }>;
+    // Multi-sheet parsing: per-sheet breakdown (top-level counters are summed across sheets)
+    sheets?: Array<{
+      name: string;
+      sourceSchema: SourceSchema;
+      headerMode?: "headers" | "none" | "untrusted";
+      totalRows: number;
+      parsedRows: number;
+      errorCount: number;
+    }>;
     // Self-describing contract: required fields the frontend should treat as blocking if missing
     requiredFields?: string[];
-    templateVersion?: string;   // From __meta sheet, if present
+    templateVersion?: string;   // Template version that matched (e.g. `MedWay_Template_v4`), else from __meta if present
+    // Template the headers almost matched (or declared in __meta) when no template checksum matched
+    templateNearMatch?: {
+      version: string;
+      schema: SourceSchema;
+      matchedHeaders: number;   // Template headers present in the file
+      totalHeaders: number;
+      missing: string[];        // Template headers not found
+      declared: boolean;        // Version came from __meta rather than header overlap
+    };
+    // Missing / extra / renamed headers against that template (or the template kept despite cosmetic drift)
+    templateDrift?: TemplateDrift;
     headerChecksum?: string;    // From __meta, if present
     totalRows: number;          // Raw rows found (excluding header)
     parsedRows: number;         // Rows that survived sanitize
@@ -119,6 +545,31 @@ export interface ParsedImportResult {
   };
 }
 
+/**
+ * Incremental events emitted by `parseProductsStream`.
+ * - `row`: a sanitized canonical row and its source row number.
+ * - `error`: a row-level error/warning (same shape as `ParsedImportResult.errors`).
+ * - `meta`: emitted once, last, with final counters.
+ * Signed: EyosiyasJ
+ */
+export type ParseStreamEvent =
+  | { type: "row"; row: CanonicalProduct; rowIndex: number; sheet?: string }
+  | { type: "error"; error: ParsedRowError }
+  | { type: "meta"; meta: ParsedImportResult["meta"] };
+
+/**
+ * Parse phases reported to progress listeners, in order:
+ * `read` (workbook/text decode) → `detect` (schema, mapping, concat mode) → `map` (per-row mapping
+ * and decomposition) → `sanitize` (per-row validation, duplicate pass).
+ * Signed: EyosiyasJ
+ */
+export type ParsePhase = "read" | "detect" | "map" | "sanitize";
+
+/**
+ * Progress listener: `done` of `total` units in `phase` (rows for `map`/`sanitize`, 0/1 otherwise).
+ */
+export type ParseProgressCallback = (phase: ParsePhase, done: number, total: number) => void;
+
 export const ENGINE_VERSION = "0.1.0";
 
 export type ParseResult = ParsedImportResult;
@@ -0,0 +1,133 @@
+/**
+ * Module: Worker Adapter
+ * Purpose: Run `parseProductsFileFromBuffer` off the UI thread. Large workbooks take seconds to
+ * decode and sanitize; inside a Web Worker the page stays responsive and receives progress events.
+ * Protocol (structured-clone messages, one request id per parse):
+ * - caller → worker: `{ type: "parse", id, bytes, filename, options }` with `bytes` transferred.
+ * - worker → caller: `progress` (phase + done/total), then exactly one of `result` or `error`.
+ * Cancellation: the parse is synchronous inside the worker, so `parseInWorker` cancels by
+ * terminating the worker and rejecting with an `AbortError`; create a new worker afterwards.
+ * Usage (worker file): `import { registerParseWorker } from "medway-import-core/worker"; registerParseWorker();`
+ * Signed: EyosiyasJ
+ */
+
+import { parseProductsFileFromBuffer } from "./index.js";
+import type { ParsedImportResult, ParseOptions, ParsePhase, ParseProgressCallback } from "./types.js";
+
+export type ParseWorkerRequest = {
+  type: "parse";
+  id: number;
+  bytes: ArrayBuffer;
+  filename: string;
+  options?: ParseOptions;
+};
+
+export type ParseWorkerResponse =
+  | { type: "progress"; id: number; phase: ParsePhase; done: number; total: number }
+  | { type: "result"; id: number; result: ParsedImportResult }
+  | { type: "error"; id: number; message: string };
+
+/** Minimal worker global scope (`self` in a dedicated worker, or a `MessagePort`). */
+export interface ParseWorkerScope {
+  postMessage(message: ParseWorkerResponse): void;
+  addEventListener(type: "message", listener: (ev: MessageEvent) => void): void;
+}
+
+/** Minimal caller-side worker handle (`Worker`, or a `MessagePort` plus `terminate`). */
+export interface ParseWorkerHandle {
+  postMessage(message: ParseWorkerRequest, transfer: Transferable[]): void;
+  addEventListener(type: "message", listener: (ev: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (ev: MessageEvent) => void): void;
+  terminate(): void;
+}
+
+/**
+ * registerParseWorker
+ * Install the parse message handler on the worker scope (defaults to the worker's global `self`).
+ * Requests are handled in arrival order; failures are posted as `error` messages, never thrown.
+ * Signed: EyosiyasJ
+ */
+export function registerParseWorker(scope: ParseWorkerScope = globalThis as unknown as ParseWorkerScope): void {
+  scope.addEventListener("message", async (ev: MessageEvent) => {
+    const msg = ev.data as ParseWorkerRequest;
+    if (!msg || msg.type !== "parse") return;
+    const { id } = msg;
+    try {
+      const result = await parseProductsFileFromBuffer(msg.bytes, msg.filename, {
+        ...msg.options,
+        onProgress: (phase, done, total) => scope.postMessage({ type: "progress", id, phase, done, total }),
+      });
+      scope.postMessage({ type: "result", id, result });
+    } catch (e) {
+      scope.postMessage({ type: "error", id, message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+}
+
+let nextRequestId = 1;
+
+/**
+ * parseInWorker
+ * Caller-side helper: transfer `fileBytes` to a worker running `registerParseWorker` and resolve with
+ * its `ParsedImportResult`.
+ *
+ * Parameters:
+ * - `worker`: the worker handle; several parses may share one worker (handled in order).
+ * - `fileBytes`: transferred, so the buffer is detached (unusable) in the caller afterwards.
+ * - `filename` / `options`: as for `parseProductsFileFromBuffer`; `onProgress`/`signal` stay on the
+ *   caller side, every other option is posted (and must be structured-cloneable).
+ * - `control.onProgress` (or `options.onProgress`): receives the worker's `read`/`detect`/`map`/`sanitize` progress.
+ * - `control.signal` (or `options.signal`): aborting terminates the worker and rejects with an `AbortError`.
+ *
+ * Returns: `Promise<ParsedImportResult>`; rejects with the worker's message on failure.
+ * Signed: EyosiyasJ
+ */
+export function parseInWorker(
+  worker: ParseWorkerHandle,
+  fileBytes: ArrayBuffer,
+  filename: string,
+  options?: ParseOptions,
+  control?: { onProgress?: ParseProgressCallback; signal?: AbortSignal }
+): Promise<ParsedImportResult> {
+  const id = nextRequestId++;
+  const { onProgress: optionsProgress, signal: optionsSignal, ...postable } = options ?? {};
+  const onProgress = control?.onProgress ?? optionsProgress;
+  return new Promise<ParsedImportResult>((resolve, reject) => {
+    const signal = control?.signal ?? optionsSignal;
+    const cleanup = () => {
+      worker.removeEventListener("message", onMessage);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(abortError());
+    };
+    const onMessage = (ev: MessageEvent) => {
+      const msg = ev.data as ParseWorkerResponse;
+      if (!msg || msg.id !== id) return;
+      if (msg.type === "progress") {
+        onProgress?.(msg.phase, msg.done, msg.total);
+      } else if (msg.type === "result") {
+        cleanup();
+        resolve(msg.result);
+      } else if (msg.type === "error") {
+        cleanup();
+        reject(new Error(msg.message));
+      }
+    };
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    worker.addEventListener("message", onMessage);
+    signal?.addEventListener("abort", onAbort);
+    worker.postMessage({ type: "parse", id, bytes: fileBytes, filename, options: postable }, [fileBytes]);
+  });
+}
+
+function abortError(): Error {
+  const e = new Error("Parse cancelled");
+  e.name = "AbortError";
+  return e;
+}
@@ -40,6 +40,9 @@ export async function readXlsxToRows(
  * readTabularAoA
  * Reads workbook-like or tabular payload (XLS/XLSX/XLSB/ODS/HTML/CSV/TSV) from `ArrayBuffer`
  * using SheetJS and returns the first sheet as array-of-arrays for header detection.
+ * Plain-text payloads (CSV/TSV) keep SheetJS value parsing (`1,234`, `$12.50`), except numeric dates and
+ * percentages, which are taken as written: SheetJS would coerce `03/04/2030` to a US-order serial before
+ * `dateOrder` applies, and `0.9%` to `0.009`.
  * Signed: EyosiyasJ
  */
 export async function readTabularAoA(
@@ -49,19 +52,90 @@ export async function readTabularAoA(
   headerMeta?: { templateVersion?: string; headerChecksum?: string };
 }> {
   const data = new Uint8Array(fileBytes);
-  const workbook = XLSX.read(data, { type: "array" });
+  const { workbook, textBook } = readWorkbook(data);
   const sheetNames = workbook.SheetNames;
   const mainSheetName = chooseMainSheet(sheetNames);
-  const sheet = workbook.Sheets[mainSheetName];
-  const aoa = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: null });
-  const rows: string[][] = (aoa as any[]).map((r) => {
-    const arr = Array.isArray(r) ? r : [r];
-    return arr.map((v) => (v === null || v === undefined ? "" : String(v)));
-  });
+  const rows = sheetToAoA(workbook.Sheets[mainSheetName], textBook?.Sheets[mainSheetName]);
   const meta = extractMetaFromWorkbook(workbook);
   return { rows, headerMeta: meta };
 }
 
+/**
+ * readWorkbookSheetsAoA
+ * Multi-sheet variant of `readTabularAoA` for workbooks split per warehouse / therapeutic class.
+ * - `"all"`: every data-bearing sheet in workbook order; `__meta` and other `__`-prefixed sheets and
+ *   sheets without any non-empty cell are skipped.
+ * - `string[]`: the listed sheets in the caller's order (names matched case-insensitively);
+ *   names not present are returned in `missing`.
+ * Signed: EyosiyasJ
+ */
+export async function readWorkbookSheetsAoA(
+  fileBytes: ArrayBuffer,
+  select: "all" | string[]
+): Promise<{
+  sheets: Array<{ name: string; rows: string[][] }>;
+  missing: string[];
+  headerMeta?: { templateVersion?: string; headerChecksum?: string };
+}> {
+  const data = new Uint8Array(fileBytes);
+  const { workbook, textBook } = readWorkbook(data);
+  const sheetNames = workbook.SheetNames;
+  const missing: string[] = [];
+  let names: string[];
+  if (select === "all") {
+    names = sheetNames.filter((n) => !n.startsWith("__"));
+  } else {
+    names = [];
+    for (const wanted of select) {
+      const hit = sheetNames.find((n) => n.toLowerCase() === String(wanted).toLowerCase());
+      if (hit) names.push(hit);
+      else missing.push(wanted);
+    }
+  }
+  const sheets: Array<{ name: string; rows: string[][] }> = [];
+  for (const name of names) {
+    const rows = sheetToAoA(workbook.Sheets[name], textBook?.Sheets[name]);
+    const hasData = rows.some((r) => r.some((v) => v.trim() !== ""));
+    if (select === "all" && !hasData) continue;
+    sheets.push({ name, rows });
+  }
+  return { sheets, missing, headerMeta: extractMetaFromWorkbook(workbook) };
+}
+
+// Plain-text cells kept as written: numeric day/month/year dates (any order, `/`, `-` or `.` separated),
+// whose order `dateOrder` decides, and percentages (`0.9%` is a strength, not 0.009)
+const KEEP_AS_WRITTEN_RE = /^(?:\d{1,4}[\/.-]\d{1,2}[\/.-]\d{1,4}|[-+]?\d+(?:[.,]\d+)?\s*%)$/;
+
+/**
+ * Read a payload with SheetJS. Binary workbooks (ZIP / OLE containers) store typed cells, so one read is
+ * enough; plain text is also read with `raw: true` so `sheetToAoA` can recover dates and percentages as written.
+ * Signed: EyosiyasJ
+ */
+function readWorkbook(data: Uint8Array): { workbook: XLSX.WorkBook; textBook?: XLSX.WorkBook } {
+  const workbook = XLSX.read(data, { type: "array" });
+  const zip = data[0] === 0x50 && data[1] === 0x4b;
+  const ole = data[0] === 0xd0 && data[1] === 0xcf && data[2] === 0x11 && data[3] === 0xe0;
+  return zip || ole ? { workbook } : { workbook, textBook: XLSX.read(data, { type: "array", raw: true }) };
+}
+
+/**
+ * Convert a worksheet to array-of-arrays of strings (blank for empty cells).
+ * With the `raw: true` read of a plain-text payload, numeric dates and percentages take the text as written.
+ * Signed: EyosiyasJ
+ */
+function sheetToAoA(sheet: XLSX.WorkSheet | undefined, textSheet?: XLSX.WorkSheet): string[][] {
+  if (!sheet) return [];
+  const toStrings = (ws: XLSX.WorkSheet) =>
+    (XLSX.utils.sheet_to_json<any[]>(ws, { header: 1, defval: null }) as any[]).map((r) => {
+      const arr = Array.isArray(r) ? r : [r];
+      return arr.map((v) => (v === null || v === undefined ? "" : String(v)));
+    });
+  const rows = toStrings(sheet);
+  if (!textSheet) return rows;
+  const text = toStrings(textSheet);
+  return rows.map((r, i) => r.map((v, j) => (KEEP_AS_WRITTEN_RE.test(text[i]?.[j] ?? "") ? text[i][j] : v)));
+}
+
 /**
  * Select the primary sheet to parse. Prefers a sheet named `Products` otherwise falls back to the first sheet.
  * Signed: EyosiyasJ
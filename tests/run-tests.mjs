@@ -1,12 +1,19 @@
 import assert from "assert";
 import * as XLSX from "xlsx";
-import { parseProductsFileFromBuffer } from "../dist/index.js";
+import { parseProductsFileFromBuffer, parseProductsStream, createMappingProfile, exportToTemplateV3, exportToTemplateV4, registerSourceSchema, unregisterSourceSchema, listSourceSchemas } from "../dist/index.js";
 import { normalizeCountryToIso2 } from "../dist/country.js";
-import { sanitizeCanonicalRow } from "../dist/sanitize.js";
+import { sanitizeCanonicalRow, sanitizeExpiry, sanitizeGTIN, sanitizeStrength } from "../dist/sanitize.js";
 import fs from "fs";
 import path from "path";
-import { inferConcatenatedColumns } from "../dist/schema.js";
+import { inferConcatenatedColumns, inferHeaderlessAssignments } from "../dist/schema.js";
 import { splitNameGenericStrengthForm, decomposeConcatenatedCell } from "../dist/concatDecompose.js";
+import { registerParseWorker, parseInWorker } from "../dist/worker.js";
+import { parseGs1ElementString, gs1CheckDigit } from "../dist/gs1.js";
+import { parseStrength } from "../dist/strength.js";
+import { splitIngredientNames } from "../dist/ingredients.js";
+import { classifyUmbrellaCategory, classifyIngredientUmbrella, explainUmbrellaCategory, createUmbrellaClassifier, validateUmbrellaRules, mapAtcCodeToUmbrella, normalizeAtcCode } from "../dist/category.js";
+import { createFormulary, parseFormularyJson, parseFormularyCsv } from "../dist/formulary.js";
+import { createBrandTable, parseBrandTableJson, parseBrandTableCsv } from "../dist/brands.js";
 import { generateAll as generateFixtures } from "./generate-fixtures.mjs";
 
 // Collect parsed item previews from fixtures for end-of-run display
@@ -106,6 +113,7 @@ async function testXlsxTemplateV3() {
   assert.equal(res.meta.parsedRows, 1);
   assert.equal(res.meta.templateVersion, "MedWay_Template_v3");
   assert.equal(res.meta.headerChecksum, "f9802bc8");
+  assert.ok(res.errors.some((e) => e.code === "W_TEMPLATE_OUTDATED" && e.row === 1));
 }
 
 /**
@@ -214,6 +222,7 @@ async function run() {
     testBatchInfoDecomposition,
     testModesConsistency,
     testValidationModeBehaviour,
+    testValidationModeFileErrors,
     testFastDeepMetaDiffers,
     testDevicesRelaxedValidation,
     testHeaderlessPosDetection,
@@ -221,6 +230,31 @@ async function run() {
     testCrossFieldPurity,
     testManufacturerBrandConservative,
     testManufacturerBrandPolish,
+    testStreamMatchesBuffer,
+    testColumnMappingOverride,
+    testMappingProfiles,
+    testMultiSheetWorkbook,
+    testDateOrderOption,
+    testDuplicatePolicy,
+    testExportTemplateRoundTrip,
+    testWorkerAdapter,
+    testProgressAndAbort,
+    testGs1ElementStrings,
+    testGtinCheckDigit,
+    testStructuredStrength,
+    testStrengthUnitNormalization,
+    testIngredients,
+    testFormularyMatching,
+    testBrandTable,
+    testExplainUmbrellaCategory,
+    testUmbrellaClassifier,
+    testAtcCodes,
+    testSchemaRegistry,
+    testTemplateVersions,
+    testTemplateDrift,
+    testImportSummary,
+    testNearExpiry,
+    testReferenceDate,
   ];
   for (const t of tests) {
     console.log(`RUN: ${t.name}`);
@@ -477,6 +511,50 @@ async function testValidationModeBehaviour() {
   assert.equal(JSON.stringify(full.rows.slice(0,5)), JSON.stringify(none.rows.slice(0,5)), "canonical rows should match under none mode");
 }
 
+/**
+ * validationMode also governs file-level notices (template version/mismatch, option errors), in the
+ * buffered and streaming paths; a generic CSV reusing some template headers is not a template mismatch.
+ * Signed: EyosiyasJ
+ */
+async function testValidationModeFileErrors() {
+  const csv = [
+    "Generic (International Name),Product Type,Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture,Serial Number,Brand Name,Manufacturer,Notes",
+    "Paracetamol,medicine,500mg,tablet,Analgesics,31/12/2001,30,B1,10,2.5,India,,Panadol,Cipla,",
+    "Ibuprofen,medicine,400mg,tablet,Analgesics,31/12/2099,30,,10,2.5,India,,,,",
+  ].join("\n");
+  const bytes = () => new TextEncoder().encode(csv).buffer;
+  const options = { columnMapping: { Notes: "batch.qty" } };
+  const streamErrors = async (o) => {
+    const out = [];
+    for await (const ev of parseProductsStream(bytes(), "v3.csv", o)) if (ev.type === "error") out.push(ev.error);
+    return out;
+  };
+  const full = await parseProductsFileFromBuffer(bytes(), "v3.csv", options);
+  assert.equal(full.meta.sourceSchema, "template_v3");
+  assert.ok(full.errors.some((e) => e.code === "W_TEMPLATE_OUTDATED"));
+  assert.ok(full.errors.some((e) => e.code === "E_COLUMN_MAPPING_TARGET"));
+
+  for (const errors of [
+    (await parseProductsFileFromBuffer(bytes(), "v3.csv", { ...options, validationMode: "errorsOnly" })).errors,
+    await streamErrors({ ...options, validationMode: "errorsOnly" }),
+  ]) {
+    assert.ok(errors.length > 0 && errors.length < full.errors.length);
+    assert.deepEqual(errors.filter((e) => e.code.startsWith("W_")), [], "errorsOnly returns no warnings");
+    assert.ok(errors.some((e) => e.code === "E_COLUMN_MAPPING_TARGET"));
+  }
+  assert.deepEqual((await parseProductsFileFromBuffer(bytes(), "v3.csv", { ...options, validationMode: "none" })).errors, []);
+  assert.deepEqual(await streamErrors({ ...options, validationMode: "none" }), []);
+
+  // 10 of the 15 Template v3 headers, no __meta: a generic CSV, not a broken template
+  const generic = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,31/12/2099,30,B1,10,2.5,India",
+  ].join("\n");
+  const plain = await parseProductsFileFromBuffer(new TextEncoder().encode(generic).buffer, "generic.csv");
+  assert.equal(plain.meta.sourceSchema, "csv_generic");
+  assert.ok(!plain.errors.some((e) => e.code === "W_TEMPLATE_MISMATCH"));
+}
+
 /**
  * Cross-field purity sweeps ensure sensitive fields are not contaminated
  * with strength, unit tokens, or manufacturer/country mixups.
@@ -755,3 +833,1173 @@ async function testExpiryFlexibleFormats() {
   await check("Nov/2028", "2028-11-");
   await check("07/2030", "2030-07-");
 }
+
+/**
+ * Streaming API yields the same rows/errors as the buffered parser, with meta last
+ * Signed: EyosiyasJ
+ */
+async function testStreamMatchesBuffer() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+  ];
+  for (let i = 0; i < 60; i++) {
+    const expiry = i % 10 === 0 ? "31/12/2001" : "31/12/2099";
+    lines.push(`Paracetamol,${500 + i}mg,tablet,Analgesics,${expiry},30TAB,B${1000 + i},${i + 1},12.5,India`);
+  }
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+  const buffered = await parseProductsFileFromBuffer(bytes, "stream.csv");
+  const rows = [];
+  const errors = [];
+  const rowIndexes = [];
+  let meta = null;
+  for await (const ev of parseProductsStream(bytes, "stream.csv")) {
+    assert.equal(meta, null, "meta must be the last event");
+    if (ev.type === "row") { rows.push(ev.row); rowIndexes.push(ev.rowIndex); }
+    else if (ev.type === "error") errors.push(ev.error);
+    else meta = ev.meta;
+  }
+  assert.ok(meta, "meta event emitted");
+  assert.deepEqual(rows, buffered.rows);
+  assert.deepEqual(errors, buffered.errors);
+  assert.equal(meta.parsedRows, buffered.meta.parsedRows);
+  assert.equal(meta.sourceSchema, buffered.meta.sourceSchema);
+  assert.equal(rowIndexes[0], 2);
+
+  // Early exit: consumer can stop after the first row without draining the file
+  const it = parseProductsStream(bytes, "stream.csv");
+  let first = null;
+  for await (const ev of it) {
+    if (ev.type === "row") { first = ev.row; break; }
+  }
+  assert.equal(first?.product.generic_name, "Paracetamol");
+}
+
+/**
+ * Caller columnMapping overrides auto mapping (headers and headerless) and is echoed in meta
+ * Signed: EyosiyasJ
+ */
+async function testColumnMappingOverride() {
+  const csv = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Country of Manufacture,Zx Avl,Item Quantity",
+    "Paracetamol,500mg,tablet,Analgesics,31/12/2099,30,India,250,7",
+  ].join("\n");
+  const bytes = new TextEncoder().encode(csv).buffer;
+  const auto = await parseProductsFileFromBuffer(bytes, "map.csv");
+  assert.equal(auto.rows[0].batch.on_hand, 7);
+  assert.equal(auto.meta.columnMapping["Zx Avl"], null);
+  assert.equal(auto.meta.columnMapping["Item Quantity"], "batch.on_hand");
+
+  const res = await parseProductsFileFromBuffer(bytes, "map.csv", {
+    columnMapping: { "Zx Avl": "batch.on_hand", "Pack Contents": null },
+  });
+  assert.equal(res.rows[0].batch.on_hand, 250, "override wins over auto-mapped Item Quantity");
+  assert.equal(res.rows[0].pkg?.pieces_per_unit, undefined, "null override ignores the column");
+  assert.equal(res.meta.columnMapping["Zx Avl"], "batch.on_hand");
+  assert.equal(res.meta.columnMapping["Item Quantity"], null);
+  assert.equal(res.meta.columnMapping["Pack Contents"], null);
+  assert.deepEqual(res.meta.columnMappingOverrides, ["Pack Contents", "Zx Avl"]);
+
+  // Fixed layout: a null override clears the template's value, and a remap releases both the column's
+  // built-in field and the column the template had on the claimed field
+  const v3 = [
+    "Generic (International Name),Product Type,Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture,Serial Number,Brand Name,Manufacturer,Notes",
+    "Paracetamol,medicine,500mg,tablet,Analgesics,31/12/2099,30,B1,10,2.5,India,,Panadol,Cipla,Calpol",
+  ].join("\n");
+  const fixed = await parseProductsFileFromBuffer(new TextEncoder().encode(v3).buffer, "v3.csv", {
+    columnMapping: { "Country of Manufacture": null, Notes: "product.brand_name" },
+  });
+  assert.equal(fixed.meta.sourceSchema, "template_v3");
+  assert.equal(fixed.rows[0].batch.coo, null);
+  assert.equal(fixed.rows[0].identity.coo, null);
+  assert.equal(fixed.rows[0].product.brand_name, "Calpol");
+  assert.equal(fixed.rows[0].product.description, "NA", "Notes no longer fills description");
+  assert.equal(fixed.meta.columnMapping["Country of Manufacture"], null);
+  assert.equal(fixed.meta.columnMapping["Brand Name"], null);
+  assert.equal(fixed.meta.columnMapping.Notes, "product.brand_name");
+
+  // Generic CSV: the reported mapping uses the same header hints as the rows (a leading `n/a` cell
+  // no longer hides a column that later rows map)
+  const generic = [
+    "Generic Name,Strength,Dosage Form,Expiry Date,Batch Number,Available Stock Qty,Unit Price",
+    "Paracetamol,500mg,tablet,31/12/2099,B1,n/a,2.5",
+    "Ibuprofen,400mg,tablet,31/12/2099,B2,40,2.5",
+    "Amoxicillin,250mg,capsule,31/12/2099,B3,30,2.5",
+  ].join("\n");
+  const hinted = await parseProductsFileFromBuffer(new TextEncoder().encode(generic).buffer, "generic.csv");
+  assert.deepEqual(hinted.rows.map((r) => r.batch.on_hand), [0, 40, 30]);
+  assert.equal(hinted.meta.columnMapping["Available Stock Qty"], "batch.on_hand");
+
+  // Headerless: col_N keys override inferred assignments
+  const rowsNone = [
+    "Amoxicillin,250mg,capsule,31/12/2099,120,India",
+    "Ibuprofen,400mg,tablet,30/11/2099,80,Kenya",
+  ].join("\n");
+  const bytesNone = new TextEncoder().encode(rowsNone).buffer;
+  const hl = await parseProductsFileFromBuffer(bytesNone, "none.csv", { columnMapping: { col_2: "product.description" } });
+  assert.equal(hl.meta.headerMode, "none");
+  assert.equal(hl.meta.columnMapping.col_2, "product.description");
+  assert.equal(hl.rows[0].product.description, "250mg");
+
+  // Unknown target path is reported at file level
+  const bad = await parseProductsFileFromBuffer(bytes, "map.csv", { columnMapping: { "Zx Avl": "batch.qty" } });
+  assert.ok(bad.errors.some((e) => e.row === 1 && e.code === "E_COLUMN_MAPPING_TARGET"));
+}
+
+/**
+ * Supplier profiles: saved mapping re-applied on exact and fuzzy header fingerprint matches
+ * Signed: EyosiyasJ
+ */
+async function testMappingProfiles() {
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Country of Manufacture,Zx Avl";
+  const row = "Paracetamol,500mg,tablet,Analgesics,31/12/2099,India,250";
+  const bytes = new TextEncoder().encode([header, row].join("\n")).buffer;
+  const first = await parseProductsFileFromBuffer(bytes, "supplier.csv");
+  assert.equal(first.meta.profileId, undefined);
+  const profile = createMappingProfile(first.meta, { id: "acme", columnMapping: { "Zx Avl": "batch.on_hand" }, dateFormat: "DD/MM/YYYY", locale: "en-GB" });
+  assert.ok(profile);
+  assert.equal(profile.columnMapping["Zx Avl"], "batch.on_hand");
+  // Profiles are plain JSON
+  const stored = JSON.parse(JSON.stringify(profile));
+
+  const exact = await parseProductsFileFromBuffer(bytes, "supplier-next-month.csv", { profiles: [stored] });
+  assert.equal(exact.meta.profileId, "acme");
+  assert.equal(exact.meta.profileMatch.kind, "exact");
+  assert.equal(exact.rows[0].batch.on_hand, 250);
+
+  // Cosmetic header renames + an extra column still match fuzzily
+  const renamed = header.replace("Zx Avl", "ZX. AVL").replace("Strength", "strength") + ",Remarks";
+  const bytes2 = new TextEncoder().encode([renamed, row + ",ok"].join("\n")).buffer;
+  const fuzzy = await parseProductsFileFromBuffer(bytes2, "supplier.csv", { profiles: [stored] });
+  assert.equal(fuzzy.meta.profileId, "acme");
+  assert.equal(fuzzy.meta.profileMatch.kind, "fuzzy");
+  assert.equal(fuzzy.meta.columnMapping["ZX. AVL"], "batch.on_hand");
+  assert.equal(fuzzy.rows[0].batch.on_hand, 250);
+
+  // Unrelated header set does not match
+  const other = new TextEncoder().encode("Name,Qty\nParacetamol 500mg tablet,5").buffer;
+  const none = await parseProductsFileFromBuffer(other, "other.csv", { profiles: [stored] });
+  assert.equal(none.meta.profileId, undefined);
+}
+
+/**
+ * Multi-sheet workbooks: all data sheets or a chosen list, per-sheet meta and sheet-tagged errors
+ * Signed: EyosiyasJ
+ */
+async function testMultiSheetWorkbook() {
+  const headers = ["Generic (International Name)", "Strength", "Dosage Form", "Product Category", "Expiry Date", "Pack Contents", "Item Quantity", "Country of Manufacture"];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    headers,
+    ["Paracetamol", "500mg", "tablet", "Analgesics", "31/12/2099", 30, 100, "India"],
+    ["Ibuprofen", "400mg", "tablet", "Analgesics", "31/12/2099", 30, 50, "India"],
+  ]), "Addis");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([[]]), "Empty");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    headers,
+    ["Amoxicillin", "250mg", "capsule", "Antibiotics", "31/12/2001", 20, 10, "Kenya"],
+  ]), "Adama");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["template_version", "x"]]), "__meta");
+  const u8 = XLSX.write(wb, { type: "array" });
+
+  const single = await parseProductsFileFromBuffer(u8, "wh.xlsx");
+  assert.equal(single.meta.totalRows, 2, "default reads only the first sheet");
+  assert.equal(single.meta.sheets, undefined);
+
+  const all = await parseProductsFileFromBuffer(u8, "wh.xlsx", { sheets: "all" });
+  assert.deepEqual(all.meta.sheets.map((s) => s.name), ["Addis", "Adama"]);
+  assert.equal(all.meta.totalRows, 3);
+  assert.equal(all.meta.sheets[1].totalRows, 1);
+  assert.equal(all.meta.sheets[1].sourceSchema, "csv_generic");
+  const expired = all.errors.find((e) => e.field === "batch.expiry_date");
+  assert.ok(expired, "expired row reported");
+  assert.equal(expired.sheet, "Adama");
+  assert.equal(expired.row, 2);
+  assert.equal(all.meta.sheets[1].errorCount, all.errors.filter((e) => e.sheet === "Adama").length);
+
+  const picked = await parseProductsFileFromBuffer(u8, "wh.xlsx", { sheets: ["adama", "Nope"] });
+  assert.deepEqual(picked.meta.sheets.map((s) => s.name), ["Adama"]);
+  assert.ok(picked.errors.some((e) => e.code === "E_SHEET_NOT_FOUND" && e.sheet === "Nope"));
+
+  const streamed = [];
+  for await (const ev of parseProductsStream(u8, "wh.xlsx", { sheets: "all" })) {
+    if (ev.type === "row") streamed.push(ev.sheet);
+    if (ev.type === "meta") assert.equal(ev.meta.sheets.length, 2);
+  }
+  assert.deepEqual(streamed, ["Addis", "Addis", "Adama"]);
+}
+
+/**
+ * Expiry date order: explicit MDY, auto-detection with evidence, ambiguity warnings, default DMY
+ * Signed: EyosiyasJ
+ */
+async function testDateOrderOption() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Item Quantity,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,12/31/2099,30,100,USA",
+    "Ibuprofen,400mg,tablet,Analgesics,06/15/2098,30,100,USA",
+    "Amoxicillin,250mg,capsule,Antibiotics,03/04/2097,30,100,USA",
+  ];
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+
+  const dflt = await parseProductsFileFromBuffer(bytes, "us.csv");
+  assert.equal(dflt.meta.dateOrder.order, "DMY");
+  assert.equal(dflt.meta.dateOrder.source, "default");
+  assert.ok(dflt.errors.some((e) => e.row === 2 && e.code === "invalid_format"), "12/31 is not a DMY date");
+
+  const auto = await parseProductsFileFromBuffer(bytes, "us.csv", { dateOrder: "auto" });
+  assert.equal(auto.meta.dateOrder.order, "MDY");
+  assert.equal(auto.meta.dateOrder.source, "detected");
+  assert.equal(auto.meta.dateOrder.evidence.MDY, 2);
+  assert.equal(auto.meta.dateOrder.evidence.ambiguous, 1);
+  assert.equal(auto.rows[0].batch.expiry_date, "2099-12-31");
+  assert.equal(auto.rows[2].batch.expiry_date, "2097-03-04");
+  const ambiguous = auto.errors.filter((e) => e.code === "W_DATE_AMBIGUOUS");
+  assert.deepEqual(ambiguous.map((e) => e.row), [4]);
+
+  const explicit = await parseProductsFileFromBuffer(bytes, "us.csv", { dateOrder: "MDY" });
+  assert.equal(explicit.meta.dateOrder.source, "option");
+  assert.equal(explicit.rows[1].batch.expiry_date, "2098-06-15");
+  assert.ok(!explicit.errors.some((e) => e.code === "W_DATE_AMBIGUOUS"), "explicit order is not flagged");
+
+  assert.equal(sanitizeExpiry("12/31/2099", "MDY").issues.length, 0);
+  assert.ok(sanitizeExpiry("12/31/2099").issues.some((i) => i.code === "E_DATE_MM"));
+  assert.ok(sanitizeExpiry("1-2-2099").issues.some((i) => i.code === "E_DATE_FMT"), "template shape stays DD/MM/YYYY");
+
+  // Dash ISO dates read the same under every order, so they do not outvote DMY evidence
+  const mixed = [
+    lines[0],
+    "Paracetamol,500mg,tablet,Analgesics,2099-12-31,30,100,India",
+    "Ibuprofen,400mg,tablet,Analgesics,2098-06-15,30,100,India",
+    "Cetirizine,10mg,tablet,Antihistamines,2097-01-20,30,100,India",
+    "Amoxicillin,250mg,capsule,Antibiotics,25/12/2099,30,100,India",
+  ];
+  const mixedRes = await parseProductsFileFromBuffer(new TextEncoder().encode(mixed.join("\n")).buffer, "mixed.csv", { dateOrder: "auto" });
+  assert.equal(mixedRes.meta.dateOrder.order, "DMY");
+  assert.equal(mixedRes.meta.dateOrder.source, "detected");
+  assert.deepEqual([mixedRes.meta.dateOrder.evidence.DMY, mixedRes.meta.dateOrder.evidence.YMD], [1, 0]);
+  assert.deepEqual(mixedRes.rows.map((r) => r.batch.expiry_date), ["2099-12-31", "2098-06-15", "2097-01-20", "2099-12-25"]);
+  const slashed = mixed.map((l, i) => (i ? l.replace(/(\d{4})-(\d{2})-(\d{2})/, "$1/$2/$3") : l));
+  const slashedRes = await parseProductsFileFromBuffer(new TextEncoder().encode(slashed.join("\n")).buffer, "mixed.csv", { dateOrder: "auto" });
+  assert.equal(slashedRes.meta.dateOrder.evidence.YMD, 3, "non-ISO year-first forms still count");
+
+  // Only numeric dates are read as written: SheetJS still parses separators and currency in other cells
+  const values = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Item Quantity,Unit Price,Country of Manufacture",
+    'Paracetamol,500mg,tablet,Analgesics,03/04/2097,30,"1,234",$12.50,India',
+  ];
+  const valuesRes = await parseProductsFileFromBuffer(new TextEncoder().encode(values.join("\n")).buffer, "values.csv");
+  assert.equal(valuesRes.rows[0].batch.on_hand, 1234);
+  assert.equal(valuesRes.rows[0].batch.unit_price, 12.5);
+  assert.equal(valuesRes.rows[0].batch.expiry_date, "2097-04-03", "DMY, not SheetJS's US order");
+}
+
+/**
+ * Duplicate product+batch rows: report / merge / keep_first policies and meta groups
+ * Signed: EyosiyasJ
+ */
+async function testDuplicatePolicy() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,31/12/2099,30,B100,40,12.5,India",
+    "Ibuprofen,400mg,tablet,Analgesics,31/12/2099,30,B100,10,9,India",
+    "paracetamol,500 mg,Tablet,Analgesics,31/12/2099,30,b100,60,13,India",
+  ];
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+
+  const none = await parseProductsFileFromBuffer(bytes, "dup.csv");
+  assert.equal(none.meta.duplicateGroups, undefined);
+  assert.equal(none.rows.length, 3);
+
+  const report = await parseProductsFileFromBuffer(bytes, "dup.csv", { duplicatePolicy: "report" });
+  assert.equal(report.rows.length, 3);
+  const w = report.errors.find((e) => e.code === "W_DUPLICATE_BATCH");
+  assert.equal(w.row, 4);
+  assert.equal(w.relatedRow, 2);
+  assert.equal(report.meta.duplicateGroups.length, 1);
+  assert.deepEqual(report.meta.duplicateGroups[0].rows, [2, 4]);
+  assert.equal(report.meta.duplicateGroups[0].totalOnHand, 100);
+
+  const merged = await parseProductsFileFromBuffer(bytes, "dup.csv", { duplicatePolicy: "merge" });
+  assert.equal(merged.rows.length, 2);
+  assert.equal(merged.meta.parsedRows, 2);
+  assert.equal(merged.rows[0].batch.on_hand, 100);
+  assert.equal(merged.rows[0].batch.unit_price, 12.5, "first row price kept");
+  assert.ok(merged.errors.some((e) => e.code === "W_DUPLICATE_CONFLICT" && e.field === "batch.unit_price" && e.row === 4));
+  assert.deepEqual(merged.meta.duplicateGroups[0].conflicts, ["batch.unit_price"]);
+
+  const kept = await parseProductsFileFromBuffer(bytes, "dup.csv", { duplicatePolicy: "keep_first" });
+  assert.equal(kept.rows.length, 2);
+  assert.equal(kept.rows[0].batch.on_hand, 40);
+  assert.equal(kept.meta.duplicateGroups[0].action, "dropped");
+
+  // Duplicate notices are warnings: gone under errorsOnly/none, while the policy still applies
+  for (const validationMode of ["errorsOnly", "none"]) {
+    const quiet = await parseProductsFileFromBuffer(bytes, "dup.csv", { duplicatePolicy: "merge", validationMode });
+    assert.equal(quiet.rows.length, 2);
+    assert.equal(quiet.meta.duplicateGroups.length, 1);
+    assert.ok(!quiet.errors.some((e) => e.code.startsWith("W_DUPLICATE")), `no duplicate warnings under ${validationMode}`);
+    const events = [];
+    for await (const ev of parseProductsStream(bytes, "dup.csv", { duplicatePolicy: "report", validationMode })) events.push(ev);
+    assert.ok(!events.some((ev) => ev.type === "error" && ev.error.code.startsWith("W_DUPLICATE")), `stream: no duplicate warnings under ${validationMode}`);
+  }
+}
+
+/**
+ * Template export: v4 (current) re-parses with identical rows and no W_TEMPLATE_OUTDATED, keeps
+ * ATC/storage/controlled values; v3 export still round-trips; error cells carry comments
+ * Signed: EyosiyasJ
+ */
+async function testExportTemplateRoundTrip() {
+  const headers = [
+    "Generic (International Name)", "Product Type", "Strength", "Dosage Form", "Product Category", "Expiry Date",
+    "Pack Contents", "Batch / Lot Number", "Item Quantity", "Unit Price", "Country of Manufacture", "Serial Number",
+    "Brand Name", "Manufacturer", "Notes",
+  ];
+  const ws = XLSX.utils.aoa_to_sheet([
+    headers,
+    ["Paracetamol", "medicine", "500mg", "tablet", "Analgesics", "31/12/2099", 30, "B123", 100, 12.5, "India", "0012345", "Panadol", "GSK", ""],
+    ["Amoxicillin", "medicine", "250mg", "capsule", "Anti-infectives", "31/12/2001", 20, "A77", 5, "", "Kenya", "", "", "", "old stock"],
+  ]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Products");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["template_version", "MedWay_Template_v3"], ["header_checksum", "f9802bc8"]]), "__meta");
+  const first = await parseProductsFileFromBuffer(XLSX.write(wb, { type: "array" }), "in.xlsx");
+  assert.equal(first.meta.sourceSchema, "template_v3");
+  const expired = first.errors.find((e) => e.field === "batch.expiry_date");
+  assert.ok(expired, "fixture has an expiry error");
+
+  const v3 = await parseProductsFileFromBuffer(exportToTemplateV3(first.rows, first.errors), "out-v3.xlsx");
+  assert.equal(v3.meta.sourceSchema, "template_v3");
+  assert.equal(v3.meta.templateVersion, "MedWay_Template_v3");
+  assert.equal(v3.meta.headerChecksum, "f9802bc8");
+  assert.deepEqual(v3.rows, first.rows);
+
+  const out = exportToTemplateV4(first.rows, first.errors);
+  const again = await parseProductsFileFromBuffer(out, "out.xlsx");
+  assert.equal(again.meta.sourceSchema, "template_v4");
+  assert.equal(again.meta.templateVersion, "MedWay_Template_v4");
+  assert.equal(again.meta.headerChecksum, "89ac9428");
+  assert.ok(!again.errors.some((e) => e.code === "W_TEMPLATE_OUTDATED"), "current template is not outdated");
+  assert.deepEqual(again.rows, first.rows);
+
+  const withV4Fields = first.rows.map((r, i) => ({
+    ...r,
+    identity: { ...r.identity, atc_code: i === 0 ? "N02BE01" : "J01CA04" },
+    product: { ...r.product, storage_conditions: "Store below 25C", is_controlled: i === 0 },
+  }));
+  const v4 = await parseProductsFileFromBuffer(exportToTemplateV4(withV4Fields), "v4.xlsx");
+  assert.deepEqual(v4.rows.map((r) => r.identity.atc_code), ["N02BE01", "J01CA04"]);
+  assert.deepEqual(v4.rows.map((r) => r.product.storage_conditions), ["Store below 25C", "Store below 25C"]);
+  assert.deepEqual(v4.rows.map((r) => r.product.is_controlled), [true, false]);
+
+  const book = XLSX.read(new Uint8Array(out), { type: "array" });
+  const cell = book.Sheets["Products"]["I3"];
+  assert.ok(cell.c && cell.c[0].t.includes(expired.code), "expiry cell carries the error as a comment");
+  assert.ok(book.Sheets["__errors"], "errors listed on __errors sheet");
+}
+
+/**
+ * Worker adapter: a MessageChannel stands in for the worker; result matches the in-thread parse,
+ * progress phases arrive in order, the buffer is transferred, and aborting terminates + rejects.
+ */
+async function testWorkerAdapter() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+  ];
+  for (let i = 0; i < 1200; i++) lines.push(`Paracetamol,${500 + i}mg,tablet,Analgesics,31/12/2099,30TAB,B${1000 + i},${i + 1},12.5,India`);
+  const csv = lines.join("\n");
+  const direct = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "big.csv");
+
+  const { port1, port2 } = new MessageChannel();
+  registerParseWorker(port2);
+  let terminated = 0;
+  const worker = {
+    postMessage: (m, t) => port1.postMessage(m, t),
+    addEventListener: (type, l) => port1.addEventListener(type, l),
+    removeEventListener: (type, l) => port1.removeEventListener(type, l),
+    terminate: () => { terminated++; },
+  };
+  port1.start();
+  port2.start();
+  try {
+    const progress = [];
+    const bytes = new TextEncoder().encode(csv).buffer;
+    const res = await parseInWorker(worker, bytes, "big.csv", undefined, {
+      onProgress: (phase, done, total) => progress.push({ phase, done, total }),
+    });
+    assert.equal(bytes.byteLength, 0, "buffer transferred to the worker");
+    assert.deepEqual(res.rows, direct.rows);
+    assert.equal(res.meta.parsedRows, 1200);
+    const phases = progress.map((p) => p.phase).filter((p, i, a) => a[i - 1] !== p);
+    assert.deepEqual(phases.slice(0, 3), ["read", "detect", "map"]);
+    assert.ok(phases.slice(2).every((p, i) => p === (i % 2 ? "sanitize" : "map")), "single pass: map and sanitize tick together");
+    const lastMap = progress.filter((p) => p.phase === "map").pop();
+    assert.deepEqual(lastMap, { phase: "map", done: 1200, total: 1200 });
+    assert.ok(progress.filter((p) => p.phase === "map").length >= 3, "map progress reported every N rows");
+
+    const ctrl = new AbortController();
+    const pending = parseInWorker(worker, new TextEncoder().encode(csv).buffer, "big.csv", undefined, { signal: ctrl.signal });
+    ctrl.abort();
+    await assert.rejects(pending, (e) => e.name === "AbortError");
+    assert.equal(terminated, 1);
+  } finally {
+    port1.close();
+    port2.close();
+  }
+}
+
+/**
+ * ParseOptions.onProgress / signal: phases in order with row ticks, abort mid-parse rejects,
+ * pre-aborted signal rejects before any work.
+ */
+async function testProgressAndAbort() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+  ];
+  for (let i = 0; i < 1500; i++) lines.push(`Amoxicillin,${250 + i}mg,capsule,Antibiotics,31/12/2099,20CAP,B${2000 + i},${i + 1},3.5,India`);
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+
+  const progress = [];
+  const res = await parseProductsFileFromBuffer(bytes, "progress.csv", {
+    onProgress: (phase, done, total) => progress.push([phase, done, total]),
+  });
+  assert.equal(res.meta.parsedRows, 1500);
+  assert.deepEqual(progress.slice(0, 4), [["read", 0, 1], ["read", 1, 1], ["detect", 0, 1], ["detect", 1, 1]]);
+  assert.deepEqual(progress.filter((p) => p[0] === "map").map((p) => p[1]), [500, 1000, 1500]);
+  assert.deepEqual(progress[progress.length - 1], ["sanitize", 1500, 1500]);
+
+  const ctrl = new AbortController();
+  await assert.rejects(
+    parseProductsFileFromBuffer(bytes, "progress.csv", {
+      signal: ctrl.signal,
+      onProgress: (phase, done) => { if (phase === "map" && done === 500) ctrl.abort(); },
+    }),
+    (e) => e.name === "AbortError"
+  );
+
+  const aborted = new AbortController();
+  aborted.abort();
+  let calls = 0;
+  await assert.rejects(
+    parseProductsFileFromBuffer(bytes, "progress.csv", { signal: aborted.signal, onProgress: () => calls++ }),
+    (e) => e.name === "AbortError"
+  );
+  assert.equal(calls, 0);
+
+  // Stream: same ticks, and an abort mid-file stops the generator after some rows were yielded
+  const streamed = [];
+  for await (const ev of parseProductsStream(bytes, "progress.csv", { onProgress: (phase, done) => streamed.push([phase, done]) })) void ev;
+  assert.deepEqual(streamed.filter((p) => p[0] === "map").map((p) => p[1]), [500, 1000, 1500]);
+
+  const streamCtrl = new AbortController();
+  let yielded = 0;
+  await assert.rejects(
+    (async () => {
+      const stream = parseProductsStream(bytes, "progress.csv", {
+        signal: streamCtrl.signal,
+        onProgress: (phase, done) => { if (phase === "map" && done === 500) streamCtrl.abort(); },
+      });
+      for await (const ev of stream) if (ev.type === "row") yielded++;
+    })(),
+    (e) => e.name === "AbortError"
+  );
+  assert.ok(yielded > 0 && yielded < 1500, `stream stopped partway (${yielded} rows)`);
+}
+
+/**
+ * GS1 element strings: parenthesized and raw FNC1 forms decode to GTIN/expiry/batch/serial,
+ * decomposition consumes the payload, and a scanner column fills the row's batch fields.
+ */
+async function testGs1ElementStrings() {
+  const expected = { gtin: "08901234567890", expiry: "2027-11-30", batch: "AB123", serial: "SN9" };
+  const paren = parseGs1ElementString("(01)08901234567890(17)271130(10)AB123(21)SN9");
+  assert.deepEqual({ gtin: paren.gtin, expiry: paren.expiry, batch: paren.batch, serial: paren.serial }, expected);
+  const raw = parseGs1ElementString("]d2010890123456789017271100" + "10AB123\u001d21SN9");
+  assert.deepEqual({ gtin: raw.gtin, expiry: raw.expiry, batch: raw.batch, serial: raw.serial }, expected, "day 00 = month end");
+  assert.equal(parseGs1ElementString("0112345"), null);
+  assert.equal(parseGs1ElementString("Paracetamol 500mg"), null);
+
+  const dec = decomposeConcatenatedCell("(01) 08901234567890 (17) 271130 (10) AB123 (21) SN9");
+  const byField = Object.fromEntries(dec.extractions.map((e) => [e.field, e.value]));
+  assert.equal(byField["identity.sku"], "08901234567890");
+  assert.equal(byField["batch.expiry_date"], "2027-11-30");
+  assert.equal(byField["batch.batch_no"], "AB123");
+  assert.equal(byField["identity.serial_no"], "SN9");
+  assert.equal(dec.leftover, "");
+
+  const csv = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture,Barcode",
+    "Paracetamol,500mg,tablet,Analgesics,,30TAB,,100,12.5,India,(01)08901234567890(17)271130(10)AB123(21)SN9",
+    "Ibuprofen,400mg,tablet,Analgesics,31/12/2099,30TAB,B777,50,8,India,010890123456789017271130" + "10LOT9",
+  ].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "scanned.csv");
+  assert.equal(res.rows.length, 2);
+  assert.equal(res.rows[0].batch.batch_no, "AB123");
+  assert.equal(res.rows[0].batch.expiry_date, "2027-11-30");
+  assert.equal(res.rows[0].identity.sku, "08901234567890");
+  assert.equal(res.rows[0].identity.serial_no, "SN9");
+  // Explicit batch/expiry columns win over the scanned payload
+  assert.equal(res.rows[1].batch.batch_no, "B777");
+  assert.equal(res.rows[1].batch.expiry_date, "2099-12-31");
+  assert.ok(!res.errors.some((e) => e.row === 2 && /batch|expiry/.test(e.field)), "scanned row has no batch/expiry errors");
+}
+
+/**
+ * GTIN check digits for GTIN-8/12/13/14, zero restoration, GTIN-14 normalisation, and
+ * headerless SKU inference ignoring long integer columns without valid check digits.
+ */
+async function testGtinCheckDigit() {
+  const codes = (r) => r.issues.map((i) => i.code);
+  assert.deepEqual(codes(sanitizeGTIN("96385074")), []);        // GTIN-8
+  assert.deepEqual(codes(sanitizeGTIN("036000291452")), []);    // UPC-A
+  assert.deepEqual(codes(sanitizeGTIN("4006381333931")), []);   // EAN-13
+  assert.deepEqual(codes(sanitizeGTIN("10012345678902")), []);  // GTIN-14
+  assert.deepEqual(codes(sanitizeGTIN("4006381333932")), ["E_GTIN_CHECKDIGIT"]);
+  const padded = sanitizeGTIN("36000291452"); // UPC-A with its leading zero lost
+  assert.deepEqual(codes(padded), ["W_GTIN_PADDED"]);
+  assert.equal(padded.value, "036000291452");
+  assert.equal(sanitizeGTIN("4006381333931", { toGtin14: true }).value, "04006381333931");
+  assert.deepEqual(codes(sanitizeGTIN("1234567")), ["E_GTIN_LEN"]);
+
+  const mk = (body) => body + gs1CheckDigit(body);
+  const rows = [];
+  for (let i = 0; i < 20; i++) {
+    rows.push({ col_1: "Paracetamol", col_2: mk(String(590123412345 + i * 7)), col_3: String(1234567890123 + i), col_4: "500mg" });
+  }
+  const assign = inferHeaderlessAssignments(rows);
+  assert.equal(assign.col_2, "sku");
+  assert.notEqual(assign.col_3, "sku", "13-digit integers without valid check digits are not barcodes");
+
+  // End to end: the Barcode column is validated as a GTIN; gtin14 reaches the returned rows
+  const csv = [
+    "Generic (International Name),Strength,Dosage Form,Expiry Date,Batch / Lot Number,Item Quantity,Barcode",
+    "Paracetamol,500mg,tablet,31/12/2099,B1,10,4006381333932",
+    "Ibuprofen,400mg,tablet,31/12/2099,B2,10,12345678905",
+    "Aspirin,100mg,tablet,31/12/2099,B3,10,4006381333931",
+    "Cetirizine,10mg,tablet,31/12/2099,B4,10,SKU-77",
+  ].join("\n");
+  const bytes = new TextEncoder().encode(csv).buffer;
+  const res = await parseProductsFileFromBuffer(bytes, "gtin.csv");
+  const gtinErrors = res.errors.filter((e) => /GTIN/.test(e.code)).map((e) => [e.row, e.field, e.code]);
+  assert.deepEqual(gtinErrors, [[2, "identity.sku", "E_GTIN_CHECKDIGIT"], [3, "identity.sku", "W_GTIN_PADDED"]]);
+  assert.equal(res.rows.find((r) => r.product.generic_name === "Ibuprofen").identity.sku, "012345678905");
+  const long = await parseProductsFileFromBuffer(bytes, "gtin.csv", { gtin14: true });
+  assert.equal(long.rows.find((r) => r.product.generic_name === "Aspirin").identity.sku, "04006381333931");
+  assert.equal(long.rows.find((r) => r.product.generic_name === "Cetirizine").identity.sku, "SKU-77");
+
+  // Serial / SKU columns are free-form codes: a numeric serial is not checked as a GTIN
+  const serials = [
+    "Generic (International Name),Strength,Dosage Form,Expiry Date,Batch / Lot Number,Item Quantity,Serial Number",
+    "Paracetamol,500mg,tablet,31/12/2099,B1,10,12345678",
+  ].join("\n");
+  const serialRes = await parseProductsFileFromBuffer(new TextEncoder().encode(serials).buffer, "serial.csv");
+  assert.equal(serialRes.meta.columnMapping["Serial Number"], "identity.sku");
+  assert.ok(!serialRes.errors.some((e) => /GTIN/.test(e.code)));
+  assert.equal(serialRes.rows[0].identity.sku, "12345678");
+}
+
+/**
+ * Structured strength: single, per-volume, combination and percentage strengths parse into
+ * components; combination strengths no longer fail E_STRENGTH_FORMAT and carry `strength_parsed`.
+ */
+async function testStructuredStrength() {
+  const comps = (s) => parseStrength(s)?.components;
+  assert.deepEqual(comps("500mg"), [{ value: 500, unit: "mg" }]);
+  assert.deepEqual(comps("5mg/5ml"), [{ value: 5, unit: "mg", per: { value: 5, unit: "ml" } }]);
+  assert.deepEqual(comps("500mg+125mg"), [{ value: 500, unit: "mg" }, { value: 125, unit: "mg" }]);
+  assert.deepEqual(comps("80/480mg"), [{ value: 80, unit: "mg" }, { value: 480, unit: "mg" }]);
+  assert.deepEqual(comps("100000 IU/ml"), [{ value: 100000, unit: "iu", per: { value: 1, unit: "ml" } }]);
+  assert.deepEqual(comps("1% w/w"), [{ value: 1, unit: "%", basis: "w/w" }]);
+  assert.deepEqual(comps("1,000mg"), [{ value: 1000, unit: "mg" }]);
+  assert.deepEqual(comps("1,000,000 IU"), [{ value: 1000000, unit: "iu" }]);
+  assert.deepEqual(comps("0,125mg"), [{ value: 0.125, unit: "mg" }], "a leading 0, is a decimal comma");
+  assert.deepEqual(comps("2,5 mg"), [{ value: 2.5, unit: "mg" }]);
+  assert.equal(sanitizeStrength("0,125mg", { normalizeUnits: true }).value, "0.125mg");
+  assert.equal(parseStrength("strong"), null);
+
+  const split = splitNameGenericStrengthForm("Co-trimoxazole 200mg+40mg/5ml Suspension");
+  assert.equal(split.generic_name, "Co-trimoxazole");
+  assert.equal(split.strength, "200mg+40mg/5ml");
+  assert.equal(comps(split.strength).length, 2);
+
+  const csv = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Amoxicillin + Clavulanic Acid,500mg+125mg,tablet,Antibiotics,31/12/2099,14TAB,B100,10,55,India",
+    "Artemether/Lumefantrine,80/480mg,tablet,Antimalarials,31/12/2099,6TAB,B101,10,40,India",
+  ].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "combo.csv");
+  assert.ok(!res.errors.some((e) => e.code === "E_STRENGTH_FORMAT"), "combination strengths accepted");
+  assert.equal(res.rows[0].product.strength, "500mg+125mg");
+  assert.deepEqual(res.rows[0].product.strength_parsed.components.map((c) => c.value), [500, 125]);
+  assert.deepEqual(res.rows[1].product.strength_parsed.components.map((c) => c.value), [80, 480]);
+}
+
+/**
+ * Opt-in strength unit normalisation (g/mcg → mg, % w/v → mg/ml) and W_STRENGTH_IMPLAUSIBLE.
+ */
+async function testStrengthUnitNormalization() {
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [
+    header,
+    "Amoxicillin,0.5g,capsule,Antibiotics,31/12/2099,20CAP,B200,10,5,India",
+    "Amoxicillin,500mg,capsule,Antibiotics,31/12/2099,20CAP,B201,10,5,India",
+    "Cyanocobalamin,1000mcg,tablet,Vitamins,31/12/2099,30TAB,B202,10,5,India",
+    "Chlorhexidine,1% w/v,solution,Antiseptics,31/12/2099,1,B203,10,5,India",
+    "Paracetamol,5000g,tablet,Analgesics,31/12/2099,30TAB,B204,10,5,India",
+  ].join("\n");
+  const bytes = () => new TextEncoder().encode(csv).buffer;
+
+  const plain = await parseProductsFileFromBuffer(bytes(), "units.csv");
+  assert.equal(plain.rows[0].product.strength, "0.5g", "default keeps source units");
+  assert.ok(plain.errors.some((e) => e.row === 6 && e.code === "W_STRENGTH_IMPLAUSIBLE"), "5000g tablet flagged");
+  assert.ok(!plain.errors.some((e) => e.row !== 6 && e.code === "W_STRENGTH_IMPLAUSIBLE"));
+
+  const norm = await parseProductsFileFromBuffer(bytes(), "units.csv", { normalizeStrengthUnits: true });
+  const strengths = norm.rows.map((r) => r.product.strength);
+  assert.deepEqual(strengths.slice(0, 4), ["500mg", "500mg", "1mg", "10mg/ml"]);
+  assert.deepEqual(norm.rows[3].product.strength_parsed.components, [{ value: 10, unit: "mg", per: { value: 1, unit: "ml" } }]);
+  assert.equal(norm.rows[4].product.strength, "5000000mg");
+}
+
+async function testIngredients() {
+  assert.deepEqual(splitIngredientNames("Amoxicillin + Clavulanic Acid"), ["Amoxicillin", "Clavulanic Acid"]);
+  assert.deepEqual(splitIngredientNames("Artemether/Lumefantrine"), ["Artemether", "Lumefantrine"]);
+  assert.deepEqual(splitIngredientNames("Sodium Chloride"), ["Sodium Chloride"]);
+  assert.deepEqual(splitIngredientNames("Ferrous Sulfate and Folic Acid"), ["Ferrous Sulfate", "Folic Acid"]);
+  assert.deepEqual(splitIngredientNames("Lidocaine & Prilocaine"), ["Lidocaine", "Prilocaine"]);
+  assert.deepEqual(splitIngredientNames("NA"), []);
+
+  // Per-ingredient scoring: the generic signal is the share of matching ingredients
+  assert.equal(classifyUmbrellaCategory({ generic_name: "Amoxicillin + Clavulanic Acid", category: "Antibiotics", ingredients: ["Amoxicillin", "Clavulanic Acid"] }), "ANTI_INFECTIVES");
+  assert.equal(classifyUmbrellaCategory({ generic_name: "Amoxicillin + Vitamin C", category: "Vitamins", ingredients: ["Amoxicillin", "Vitamin C"] }), "VITAMINS");
+  assert.equal(classifyIngredientUmbrella("Amoxicillin"), "ANTI_INFECTIVES");
+  assert.equal(classifyIngredientUmbrella("Folic Acid"), undefined, "ambiguous across BLOOD and VITAMINS");
+
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [
+    header,
+    "Amoxicillin + Clavulanic Acid,500mg/125mg,tablet,Antibiotics,31/12/2099,14TAB,B300,10,5,India",
+    "Artemether/Lumefantrine,20mg/120mg,tablet,Antimalarials,31/12/2099,24TAB,B301,10,5,India",
+    "Sodium Chloride,0.9%,solution,Fluids,31/12/2099,1,B302,10,5,India",
+    "Paracetamol and Caffeine,500mg,tablet,Analgesics,31/12/2099,10TAB,B303,10,5,India",
+  ].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "ingredients.csv");
+  const [coamox, coartem, saline, unpaired] = res.rows.map((r) => r.product.ingredients);
+  assert.deepEqual(coamox.map((i) => [i.name, i.strength]), [
+    ["Amoxicillin", { value: 500, unit: "mg" }],
+    ["Clavulanic Acid", { value: 125, unit: "mg" }],
+  ]);
+  assert.equal(coamox[0].umbrella_category, "ANTI_INFECTIVES");
+  assert.deepEqual(coartem.map((i) => i.strength.value), [20, 120]);
+  assert.deepEqual(saline.map((i) => i.name), ["Sodium Chloride"]);
+  assert.deepEqual(saline[0].strength, { value: 0.9, unit: "%" });
+  assert.deepEqual(unpaired.map((i) => [i.name, i.strength]), [["Paracetamol", undefined], ["Caffeine", undefined]], "counts differ: names only");
+}
+
+async function testFormularyMatching() {
+  const entries = parseFormularyCsv([
+    "INN,ID,Aliases,Brands",
+    "Paracetamol,F001,Acetaminophen,Panadol|Tylenol",
+    "Amoxicillin + Clavulanic Acid,F002,Co-Amoxiclav,Augmentin",
+    "Amoxicillin,F003,Amoxycillin,",
+    "Metformin,F004,,",
+  ].join("\n"));
+  assert.equal(entries.length, 4);
+  assert.deepEqual(entries[0], { inn: "Paracetamol", id: "F001", aliases: ["Acetaminophen"], brands: ["Panadol", "Tylenol"] });
+  assert.deepEqual(parseFormularyJson(JSON.stringify({ entries: [{ generic_name: "Metformin", brands: "Glucophage" }, { id: "x" }] })), [
+    { inn: "Metformin", brands: ["Glucophage"] },
+  ]);
+  assert.deepEqual(parseFormularyJson("not json"), []);
+
+  const f = createFormulary(entries);
+  assert.deepEqual(f.match("PARACETAMOL"), { inn: "Paracetamol", confidence: 1, method: "exact", formulary_id: "F001" });
+  assert.equal(f.match("Acetaminophen").method, "alias");
+  assert.equal(f.match("Tylenol").method, "brand");
+  assert.equal(f.match("Amoxicillin/Clavulanic Acid").inn, "Amoxicillin + Clavulanic Acid", "separators unified");
+  const fuzzy = f.match("Paracetemol");
+  assert.equal(fuzzy.inn, "Paracetamol");
+  assert.equal(fuzzy.method, "fuzzy");
+  assert.ok(fuzzy.confidence >= 0.9 && fuzzy.confidence < 1);
+  assert.equal(f.match("Metoprolol"), null, "dissimilar names do not match");
+  assert.equal(f.match("NA"), null);
+
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [
+    header,
+    "Paracetemol,500mg,tablet,Analgesics,31/12/2099,10TAB,B400,10,5,India",
+    "Panadol,500mg,tablet,Analgesics,31/12/2099,10TAB,B401,10,5,India",
+    "Metformin,500mg,tablet,Antidiabetics,31/12/2099,10TAB,B402,10,5,India",
+    "Ibuprofen,400mg,tablet,Analgesics,31/12/2099,10TAB,B403,10,5,India",
+  ].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "formulary.csv", { formulary: entries });
+  const [misspelt, brand, exact, unknown] = res.rows.map((r) => r.product);
+  assert.equal(misspelt.generic_name, "Paracetamol");
+  assert.equal(misspelt.formulary.formulary_id, "F001");
+  assert.ok(res.errors.some((e) => e.row === 2 && e.code === "W_GENERIC_AUTOCORRECT"));
+  assert.equal(brand.generic_name, "Paracetamol", "formulary brand hits resolve to the INN");
+  assert.equal(brand.brand_name, "Panadol");
+  assert.equal(exact.formulary.method, "exact");
+  assert.ok(!res.errors.some((e) => e.row === 4 && e.code === "W_GENERIC_AUTOCORRECT"));
+  assert.equal(unknown.formulary, undefined);
+
+  const errorsOnly = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "formulary.csv", { formulary: createFormulary(entries), validationMode: "errorsOnly" });
+  assert.equal(errorsOnly.rows[0].product.generic_name, "Paracetamol");
+  assert.ok(!errorsOnly.errors.some((e) => e.code === "W_GENERIC_AUTOCORRECT"));
+}
+
+async function testBrandTable() {
+  const entries = parseBrandTableCsv([
+    "Brand,INN,Aliases",
+    "Augmentin,Amoxicillin + Clavulanic Acid,Augmentin Duo",
+    "Panadol,Paracetamol,",
+  ].join("\n"));
+  assert.deepEqual(entries[0], { brand: "Augmentin", inn: "Amoxicillin + Clavulanic Acid", aliases: ["Augmentin Duo"] });
+  assert.deepEqual(parseBrandTableJson({ Coartem: "Artemether + Lumefantrine" }), [{ brand: "Coartem", inn: "Artemether + Lumefantrine" }]);
+  assert.deepEqual(parseBrandTableJson("[{\"brand_name\":\"Glucophage\",\"generic\":\"Metformin\"}]"), [{ brand: "Glucophage", inn: "Metformin" }]);
+
+  const table = createBrandTable(entries);
+  assert.deepEqual(table.resolve("AUGMENTIN DUO"), { brand: "Augmentin", inn: "Amoxicillin + Clavulanic Acid" });
+  assert.equal(table.resolve("Augmentin 625").brand, "Augmentin", "trailing pack number ignored");
+  assert.equal(table.resolve("Paracetamol"), null);
+
+  const header = "Generic (International Name),Brand Name,Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [
+    header,
+    "Augmentin,,625mg,tablet,Antibiotics,31/12/2099,14TAB,B500,10,5,UK",
+    "Panadol,Panadol Extra,500mg,tablet,Analgesics,31/12/2099,10TAB,B501,10,5,UK",
+    "Ibuprofen,Brufen,400mg,tablet,Analgesics,31/12/2099,10TAB,B502,10,5,UK",
+  ].join("\n");
+  const bytes = () => new TextEncoder().encode(csv).buffer;
+  const res = await parseProductsFileFromBuffer(bytes(), "brands.csv", { brandTable: entries });
+  const [aug, pan, ibu] = res.rows.map((r) => r.product);
+  assert.equal(aug.generic_name, "Amoxicillin + Clavulanic Acid");
+  assert.equal(aug.brand_name, "Augmentin");
+  assert.equal(pan.generic_name, "Paracetamol");
+  assert.equal(pan.brand_name, "Panadol Extra", "an existing brand is kept");
+  assert.equal(ibu.generic_name, "Ibuprofen");
+  assert.equal(ibu.brand_name, "Brufen");
+  assert.deepEqual(res.errors.filter((e) => e.code === "W_BRAND_IN_GENERIC").map((e) => e.row), [2, 3]);
+
+  const quiet = await parseProductsFileFromBuffer(bytes(), "brands.csv", { brandTable: table, validationMode: "errorsOnly" });
+  assert.equal(quiet.rows[0].product.generic_name, "Amoxicillin + Clavulanic Acid");
+  assert.ok(!quiet.errors.some((e) => e.code === "W_BRAND_IN_GENERIC"));
+
+  // Umbrella classification sees the resolved INN, so brand and misspelt rows classify like the INN row
+  const umbrellaCsv = [
+    "Generic (International Name),Strength,Dosage Form,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture,Notes",
+    "Amoxicillin,500mg,capsule,31/12/2099,20CAP,B510,10,5,India,antibiotic",
+    "Amoxicilin,500mg,capsule,31/12/2099,20CAP,B511,10,5,India,antibiotic",
+    "Amoxil,500mg,capsule,31/12/2099,20CAP,B512,10,5,India,antibiotic",
+  ].join("\n");
+  const resolved = await parseProductsFileFromBuffer(new TextEncoder().encode(umbrellaCsv).buffer, "umbrella.csv", {
+    formulary: [{ inn: "Amoxicillin" }],
+    brandTable: [{ brand: "Amoxil", inn: "Amoxicillin" }],
+  });
+  assert.deepEqual(resolved.rows.map((r) => r.product.generic_name), ["Amoxicillin", "Amoxicillin", "Amoxicillin"]);
+  assert.equal(resolved.rows[2].product.brand_name, "Amoxil");
+  assert.deepEqual(resolved.rows.map((r) => r.product.umbrella_category), ["ANTI_INFECTIVES", "ANTI_INFECTIVES", "ANTI_INFECTIVES"]);
+}
+
+async function testExplainUmbrellaCategory() {
+  const ex = explainUmbrellaCategory({ generic_name: "Metronidazole", category: "Antibiotics" });
+  assert.equal(ex.result, classifyUmbrellaCategory({ generic_name: "Metronidazole", category: "Antibiotics" }));
+  assert.equal(ex.ranked.length > 10, true, "every rule is ranked");
+  for (let i = 1; i < ex.ranked.length; i++) assert.ok(ex.ranked[i - 1].score >= ex.ranked[i].score);
+  const top = ex.ranked[0];
+  assert.equal(top.id, ex.best);
+  assert.equal(top.score, top.signals.category + top.signals.generic + top.signals.description + top.signals.device - top.signals.negative);
+  assert.ok(top.matched.category.length > 0);
+  assert.equal(ex.separation, ex.bestScore - ex.secondScore);
+
+  const weak = explainUmbrellaCategory({ generic_name: "Metronidazole" });
+  assert.equal(weak.result, undefined);
+  assert.equal(weak.withheld, "below_min_score");
+  assert.ok(weak.ranked[0].matched.generic.includes("metronidazole"));
+  assert.equal(explainUmbrellaCategory({ generic_name: "Qwerty" }).withheld, "no_signal");
+  const tie = explainUmbrellaCategory({ generic_name: "Amoxicillin", category: "Antibiotics" });
+  assert.equal(tie.withheld === "too_close" || tie.result === "ANTI_INFECTIVES", true);
+
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [
+    header,
+    "Metronidazole,400mg,tablet,Antibiotics,31/12/2099,10TAB,B600,10,5,India",
+    "Qwerty,1mg,tablet,Stuff,31/12/2099,10TAB,B601,10,5,India",
+  ].join("\n");
+  const bytes = () => new TextEncoder().encode(csv).buffer;
+  const plain = await parseProductsFileFromBuffer(bytes(), "explain.csv");
+  assert.equal(plain.meta.categoryExplanations, undefined, "off by default");
+  const res = await parseProductsFileFromBuffer(bytes(), "explain.csv", { explainCategories: true });
+  const rows = res.meta.categoryExplanations;
+  assert.deepEqual(rows.map((r) => r.row), [2, 3]);
+  assert.equal(rows[0].umbrella_category, res.rows[0].product.umbrella_category);
+  assert.equal(rows[0].source, rows[0].umbrella_category ? "text" : "none");
+  assert.equal(rows[1].source, "none");
+  assert.equal(rows[1].explanation.withheld, "no_signal");
+
+  // Explanations score the post-substitution generic_name, not the brand typed in the file
+  const brandCsv = [
+    "Generic (International Name),Strength,Dosage Form,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture,Notes",
+    "Amoxil,500mg,capsule,31/12/2099,20CAP,B602,10,5,India,antibiotic",
+  ].join("\n");
+  const branded = await parseProductsFileFromBuffer(new TextEncoder().encode(brandCsv).buffer, "explain.csv", {
+    explainCategories: true,
+    brandTable: [{ brand: "Amoxil", inn: "Amoxicillin" }],
+  });
+  const [amoxil] = branded.meta.categoryExplanations;
+  assert.equal(amoxil.umbrella_category, "ANTI_INFECTIVES");
+  assert.equal(amoxil.source, "text");
+  assert.ok(amoxil.explanation.ranked[0].matched.generic.includes("amoxicillin"));
+}
+
+async function testUmbrellaClassifier() {
+  const herbal = { id: "HERBAL", label: "Herbal Products", categoryKeywords: ["Herbal"], genericKeywords: ["moringa", "artemisia"] };
+  const c = createUmbrellaClassifier([herbal, { id: "ANTI_INFECTIVES", genericKeywords: ["secnidazole-x"] }]);
+  assert.deepEqual(c.issues, []);
+  assert.equal(c.explain({ generic_name: "Moringa Oleifera", category: "Herbal" }).result, "HERBAL");
+  assert.equal(explainUmbrellaCategory({ generic_name: "Moringa Oleifera", category: "Herbal" }).result, undefined, "built-ins unchanged");
+  assert.ok(c.rules.find((r) => r.id === "ANTI_INFECTIVES").genericKeywords.includes("secnidazole x"), "extends with normalised keywords");
+  assert.ok(c.rules.find((r) => r.id === "ANTI_INFECTIVES").genericKeywords.includes("metronidazole"));
+  assert.equal(c.classifyIngredient("Artemisia Annua"), "HERBAL");
+
+  const replaced = createUmbrellaClassifier([{ id: "VITAMINS", replace: true, genericKeywords: ["moringa"] }]);
+  assert.deepEqual(replaced.rules.find((r) => r.id === "VITAMINS").genericKeywords, ["moringa"]);
+  assert.equal(replaced.rules.find((r) => r.id === "VITAMINS").label, "Vitamins & Supplements");
+
+  const issues = validateUmbrellaRules([
+    { ...herbal, genericKeywords: ["moringa", "metronidazole"] },
+    { ...herbal },
+    { id: "bad id", label: "x", genericKeywords: ["y"] },
+    { id: "LOCAL", genericKeywords: ["y"] },
+    { id: "EMPTY", label: "Empty" },
+  ]);
+  assert.deepEqual(issues.map((i) => [i.code, i.ruleId]), [
+    ["E_UMBRELLA_RULE_DUPLICATE", "HERBAL"],
+    ["E_UMBRELLA_RULE_INVALID", "bad id"],
+    ["E_UMBRELLA_RULE_INVALID", "LOCAL"],
+    ["E_UMBRELLA_RULE_INVALID", "EMPTY"],
+    ["W_UMBRELLA_KEYWORD_COLLISION", "HERBAL"],
+  ]);
+  assert.equal(issues[4].keyword, "metronidazole");
+  assert.equal(issues[4].otherRuleId, "ANTI_INFECTIVES");
+
+  const header = "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture";
+  const csv = [header, "Moringa Oleifera,500mg,capsule,Herbal,31/12/2099,30CAP,B700,10,5,Ethiopia"].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "herbal.csv", {
+    umbrellaClassifier: [{ ...herbal, genericKeywords: ["moringa", "metronidazole"] }],
+  });
+  assert.equal(res.rows[0].product.umbrella_category, "HERBAL");
+  const collision = res.errors.find((e) => e.code === "W_UMBRELLA_KEYWORD_COLLISION");
+  assert.equal(collision?.row, 1);
+  assert.equal(collision?.field, "umbrellaClassifier.HERBAL");
+}
+
+async function testAtcCodes() {
+  assert.equal(normalizeAtcCode("j01 ca.04"), "J01CA04");
+  assert.equal(normalizeAtcCode("J01C"), "J01C");
+  assert.equal(normalizeAtcCode("J1CA04"), undefined);
+  assert.equal(normalizeAtcCode("J01CA4"), undefined);
+  assert.equal(mapAtcCodeToUmbrella("J01CA04"), "ANTI_INFECTIVES");
+  assert.equal(mapAtcCodeToUmbrella("J07BD01"), "VACCINES", "therapeutic group refines anatomical group");
+  assert.equal(mapAtcCodeToUmbrella("A11CC05"), "VITAMINS");
+  assert.equal(mapAtcCodeToUmbrella("V03AB15"), "ANTIDOTES_POISONING");
+  assert.equal(mapAtcCodeToUmbrella("N01AX10"), "ANESTHESIA");
+  assert.equal(mapAtcCodeToUmbrella("XX1"), undefined);
+
+  const csv = [
+    "Generic Name,Strength,Dosage Form,ATC Code,Expiry Date,Batch Number,Quantity,Unit Price,Country",
+    "Metronidazole,400mg,tablet,p01ab01,31/12/2099,B800,10,5,India",
+    "Measles Vaccine,1ml,injection,J07BD01,31/12/2099,B801,10,5,India",
+    "Paracetamol,500mg,tablet,N2BE,31/12/2099,B802,10,5,India",
+  ].join("\n");
+  const res = await parseProductsFileFromBuffer(new TextEncoder().encode(csv).buffer, "atc.csv", { explainCategories: true });
+  assert.equal(res.meta.columnMapping["ATC Code"], "identity.atc_code");
+  assert.deepEqual(res.rows.map((r) => r.identity?.atc_code), ["P01AB01", "J07BD01", "N2BE"]);
+  assert.deepEqual(res.rows.map((r) => r.product.umbrella_category), ["ANTI_INFECTIVES", "VACCINES", undefined]);
+  assert.deepEqual(res.meta.categoryExplanations.map((x) => x.source), ["atc", "atc", "none"]);
+  const bad = res.errors.find((e) => e.code === "E_ATC_FORMAT");
+  assert.equal(bad?.row, 4);
+  assert.equal(bad?.field, "identity.atc_code");
+}
+
+async function testSchemaRegistry() {
+  const bytes = (lines) => new TextEncoder().encode(lines.join("\n")).buffer;
+  const odooCsv = [
+    "Product,Lot/Serial Number,Quantity On Hand,Expiration Date",
+    "Paracetamol,L100,20,31/12/2099",
+    "Ibuprofen,,5,31/12/2099",
+  ];
+  const off = registerSourceSchema({
+    id: "odoo_stock",
+    detect: { type: "headers", headers: ["product", "lot/serial number", "quantity on hand"] },
+    columns: {
+      "Product": "product.generic_name",
+      "Lot/Serial Number": "batch.batch_no",
+      "Quantity On Hand": "batch.on_hand",
+      "Expiration Date": "batch.expiry_date",
+    },
+    requiredFields: ["product.generic_name", "batch.batch_no"],
+  });
+  const offSage = registerSourceSchema({
+    id: "sage_items",
+    priority: 500,
+    detect: { type: "predicate", test: ({ headers }) => headers.includes("SageRef") && "SageRef column present" },
+    mapRow: (raw) => ({
+      product: { generic_name: String(raw["Item Name"]), strength: "", form: "" },
+      batch: { batch_no: String(raw.SageRef), expiry_date: "", on_hand: Number(raw.Quantity) },
+    }),
+    requiredFields: ["product.generic_name"],
+  });
+  try {
+    assert.deepEqual(listSourceSchemas().map((d) => d.id), ["sage_items", "odoo_stock"]);
+    const res = await parseProductsFileFromBuffer(bytes(odooCsv), "odoo.csv");
+    assert.equal(res.meta.sourceSchema, "odoo_stock");
+    assert.equal(res.meta.schemaDetection.detector, "registered:odoo_stock");
+    assert.ok(res.meta.schemaDetection.tried.includes("template_checksum"));
+    assert.equal(res.meta.columnMapping["Quantity On Hand"], "batch.on_hand");
+    assert.deepEqual(res.meta.requiredFields, ["product.generic_name", "batch.batch_no"]);
+    assert.deepEqual(res.rows.map((r) => [r.product.generic_name, r.batch.on_hand]), [["Paracetamol", 20], ["Ibuprofen", 5]]);
+    assert.ok(!res.errors.some((e) => e.field === "product.form" || e.field === "identity.coo"), "contract replaces default required fields");
+    const missing = res.errors.filter((e) => e.code === "E_REQUIRED_FIELD");
+    assert.deepEqual(missing.map((e) => [e.row, e.field]), [[3, "batch.batch_no"]]);
+
+    const sage = await parseProductsFileFromBuffer(bytes(["Item Name,SageRef,Quantity", "Amoxicillin,S1,4"]), "sage.csv");
+    assert.equal(sage.meta.sourceSchema, "sage_items");
+    assert.equal(sage.meta.schemaDetection.reason, "SageRef column present");
+    assert.deepEqual(sage.meta.schemaDetection.tried, [], "priority 500 runs before the built-ins");
+    assert.equal(sage.rows[0].batch.batch_no, "S1");
+
+    assert.throws(() => registerSourceSchema({ id: "csv_generic", detect: { type: "checksum", checksum: "x" }, columns: {} }));
+    assert.throws(() => registerSourceSchema({ id: "no_mapper", detect: { type: "checksum", checksum: "x" } }));
+  } finally {
+    off();
+    offSage();
+  }
+  assert.equal(unregisterSourceSchema("odoo_stock"), false);
+  const plain = await parseProductsFileFromBuffer(bytes(odooCsv), "odoo.csv");
+  assert.notEqual(plain.meta.sourceSchema, "odoo_stock");
+}
+
+/**
+ * Template versions: v4 maps its extra columns, v3 still parses (flagged outdated), near misses are reported
+ */
+async function testTemplateVersions() {
+  const v4Headers = [
+    "Generic (International Name)", "Product Type", "Brand Name", "Manufacturer", "Strength", "Dosage Form",
+    "Product Category", "ATC Code", "Expiry Date", "Pack Contents", "Batch / Lot Number", "Item Quantity",
+    "Unit Price", "Country of Manufacture", "Serial Number", "Storage Conditions", "Controlled Substance", "Notes",
+  ];
+  const v4Row = [
+    "Morphine", "medicine", "", "MakerY", "10mg", "tablet", "Analgesics", "N02AA01", "31/12/2099", "30TAB",
+    "B900", 12, 4.5, "India", "SN900", "Store below 25°C", "yes", "",
+  ];
+  const workbook = (rows, meta) => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), "Products");
+    if (meta) XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(meta), "__meta");
+    return XLSX.write(wb, { type: "array" });
+  };
+  const v4 = await parseProductsFileFromBuffer(
+    workbook([v4Headers, v4Row], [["template_version", "MedWay_Template_v4"], ["header_checksum", "89ac9428"]]),
+    "v4.xlsx"
+  );
+  assert.equal(v4.meta.sourceSchema, "template_v4");
+  assert.equal(v4.meta.templateVersion, "MedWay_Template_v4");
+  assert.equal(v4.meta.schemaDetection.detector, "template_meta");
+  assert.equal(v4.rows[0].identity.atc_code, "N02AA01");
+  assert.equal(v4.rows[0].product.storage_conditions, "Store below 25°C");
+  assert.equal(v4.rows[0].product.is_controlled, true);
+  assert.ok(!v4.errors.some((e) => e.code === "W_TEMPLATE_OUTDATED"));
+
+  // Checksum alone (no __meta) also identifies v4
+  const noMeta = await parseProductsFileFromBuffer(workbook([v4Headers, v4Row]), "v4.xlsx");
+  assert.equal(noMeta.meta.sourceSchema, "template_v4");
+  assert.equal(noMeta.meta.schemaDetection.detector, "template_checksum");
+
+  // v4 without its last two columns: checksum fails, the near miss is named
+  const trimmed = [v4Headers.slice(0, -2), v4Row.slice(0, -2)];
+  const near = await parseProductsFileFromBuffer(workbook(trimmed), "near.xlsx");
+  assert.notEqual(near.meta.sourceSchema, "template_v4");
+  assert.equal(near.meta.templateNearMatch.version, "MedWay_Template_v4");
+  assert.equal(near.meta.templateNearMatch.matchedHeaders, 16);
+  assert.ok(near.errors.some((e) => e.code === "W_TEMPLATE_MISMATCH" && e.message.includes("MedWay_Template_v4")));
+}
+
+/**
+ * Template drift: __meta declares v3 but headers were renamed/reordered (kept as template) or edited (diagnosed)
+ */
+async function testTemplateDrift() {
+  const v3Headers = [
+    "Generic (International Name)", "Product Type", "Strength", "Dosage Form", "Product Category", "Expiry Date",
+    "Pack Contents", "Batch / Lot Number", "Item Quantity", "Unit Price", "Country of Manufacture", "Serial Number",
+    "Brand Name", "Manufacturer", "Notes",
+  ];
+  const v3Row = ["Paracetamol", "medicine", "500mg", "tablet", "Analgesics", "31/12/2099", "30TAB", "B123", 100, 12.5, "India", "SN001", "BrandX", "MakerY", ""];
+  const workbook = (headers, row) => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([headers, row]), "Products");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["template_version", "MedWay_Template_v3"], ["header_checksum", "f9802bc8"]]), "__meta");
+    return XLSX.write(wb, { type: "array" });
+  };
+
+  // Cosmetic: one header renamed, one re-cased, two columns swapped
+  const cosmetic = v3Headers.slice();
+  cosmetic[7] = "Batch No";
+  cosmetic[8] = "ITEM QUANTITY";
+  [cosmetic[0], cosmetic[2]] = [cosmetic[2], cosmetic[0]];
+  const cosmeticRow = v3Row.slice();
+  [cosmeticRow[0], cosmeticRow[2]] = [cosmeticRow[2], cosmeticRow[0]];
+  const kept = await parseProductsFileFromBuffer(workbook(cosmetic, cosmeticRow), "drift.xlsx");
+  assert.equal(kept.meta.sourceSchema, "template_v3");
+  assert.equal(kept.meta.schemaDetection.detector, "template_drift");
+  assert.equal(kept.meta.templateDrift.cosmetic, true);
+  assert.equal(kept.meta.templateDrift.reordered, true);
+  assert.deepEqual(kept.meta.templateDrift.renamed.map((r) => [r.from, r.to]).sort(), [["Batch No", "Batch / Lot Number"], ["ITEM QUANTITY", "Item Quantity"]]);
+  assert.equal(kept.meta.columnMapping["Batch No"], "batch.batch_no");
+  assert.equal(kept.rows[0].product.generic_name, "Paracetamol");
+  assert.equal(kept.rows[0].batch.batch_no, "B123");
+  assert.equal(kept.rows[0].batch.on_hand, 100);
+  assert.ok(kept.errors.some((e) => e.code === "W_TEMPLATE_DRIFT"));
+  for (const validationMode of ["errorsOnly", "none"]) {
+    const quiet = await parseProductsFileFromBuffer(workbook(cosmetic, cosmeticRow), "drift.xlsx", { validationMode });
+    assert.equal(quiet.meta.templateDrift.cosmetic, true);
+    assert.ok(!quiet.errors.some((e) => e.code === "W_TEMPLATE_DRIFT"), `no drift warning under ${validationMode}`);
+    const events = [];
+    for await (const ev of parseProductsStream(workbook(cosmetic, cosmeticRow), "drift.xlsx", { validationMode })) events.push(ev);
+    assert.ok(!events.some((ev) => ev.type === "error" && ev.error.code === "W_TEMPLATE_DRIFT"), `stream: no drift warning under ${validationMode}`);
+  }
+
+  // Not cosmetic: a column deleted and an unknown one inserted
+  const edited = v3Headers.filter((h) => h !== "Country of Manufacture").concat("Shelf");
+  const editedRow = v3Row.filter((_, i) => i !== 10).concat("A1");
+  const drifted = await parseProductsFileFromBuffer(workbook(edited, editedRow), "edited.xlsx");
+  assert.equal(drifted.meta.sourceSchema, "csv_generic");
+  assert.equal(drifted.meta.templateDrift.declared, true);
+  assert.equal(drifted.meta.templateDrift.declaredChecksum, "f9802bc8");
+  assert.notEqual(drifted.meta.templateDrift.actualChecksum, "f9802bc8");
+  assert.deepEqual(drifted.meta.templateDrift.missing, ["Country of Manufacture"]);
+  assert.deepEqual(drifted.meta.templateDrift.extra, ["Shelf"]);
+  assert.ok(drifted.errors.some((e) => e.code === "W_TEMPLATE_MISMATCH" && e.message.includes("missing: Country of Manufacture")));
+}
+
+/**
+ * meta.summary: valuation per umbrella / country, expiry counts, distinct products, missing prices; stream agrees
+ */
+async function testImportSummary() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,31/12/2027,B1,10,2,India",
+    "Paracetamol,500mg,tablet,Analgesics,31/01/2025,B2,5,2,India",
+    "Amoxicillin,250mg,capsule,Antibiotics,01/12/2024,B3,4,3.1,Germany",
+    "Ibuprofen,400mg,tablet,Analgesics,31/12/2027,B4,7,,India",
+  ];
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+  const options = { referenceDate: "2025-01-01" };
+  const res = await parseProductsFileFromBuffer(bytes, "summary.csv", options);
+  const s = res.meta.summary;
+  assert.equal(s.rows, res.rows.length);
+  assert.equal(s.distinctProducts, 3);
+  assert.equal(s.totalOnHand, 26);
+  assert.equal(s.totalValue, 42.4);
+  assert.equal(s.rowsMissingPrice, 1);
+  assert.equal(s.valueByCountry.IN, 30);
+  assert.equal(s.valueByCountry.DE, 12.4);
+  const paracetamolUmbrella = res.rows[0].product.umbrella_category ?? "unclassified";
+  assert.equal(s.valueByUmbrella[paracetamolUmbrella], 30);
+  assert.equal(s.nearExpiryBatches, 1);
+  assert.equal(s.expiredBatches, 1, "expired rows are kept (with an error) and counted");
+  assert.equal(s.nearExpiryDays, 90);
+  assert.equal(s.referenceDate, "2025-01-01");
+
+  let streamed;
+  for await (const ev of parseProductsStream(bytes, "summary.csv", options)) if (ev.type === "meta") streamed = ev.meta.summary;
+  assert.deepEqual(streamed, s);
+}
+
+/**
+ * nearExpiryDays: W_NEAR_EXPIRY with daysRemaining inside the horizon; off by default
+ */
+async function testNearExpiry() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,31/01/2025,30,B1,10,2,India",
+    "Ibuprofen,400mg,tablet,Analgesics,20/07/2025,30,B2,10,2,India",
+  ];
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+  const referenceDate = "2025-01-01";
+  const off = await parseProductsFileFromBuffer(bytes, "near.csv", { referenceDate });
+  assert.ok(!off.errors.some((e) => e.code === "W_NEAR_EXPIRY"));
+
+  const res = await parseProductsFileFromBuffer(bytes, "near.csv", { referenceDate, nearExpiryDays: 180 });
+  const near = res.errors.filter((e) => e.code === "W_NEAR_EXPIRY");
+  assert.deepEqual(near.map((e) => [e.row, e.field, e.daysRemaining]), [[2, "batch.expiry_date", 30]]);
+  assert.equal(res.rows.length, 2, "near-expiry rows are kept");
+  assert.equal(res.meta.summary.nearExpiryDays, 180);
+  assert.equal(res.meta.summary.nearExpiryBatches, 1);
+
+  const quiet = await parseProductsFileFromBuffer(bytes, "near.csv", { referenceDate, nearExpiryDays: 180, validationMode: "errorsOnly" });
+  assert.ok(!quiet.errors.some((e) => e.code === "W_NEAR_EXPIRY"));
+
+  const ref = new Date(Date.UTC(2025, 0, 1));
+  const issue = sanitizeExpiry("11/01/2025", "DMY", { nearExpiryDays: 60, referenceDate: ref }).issues.find((i) => i.code === "W_NEAR_EXPIRY");
+  assert.equal(issue.daysRemaining, 10);
+  assert.ok(!sanitizeExpiry("11/01/2025", "DMY", { referenceDate: ref }).issues.some((i) => i.code === "W_NEAR_EXPIRY"));
+}
+
+/**
+ * referenceDate: expiry judged as of a stock-take date; invalid values fall back to today with E_REFERENCE_DATE
+ */
+async function testReferenceDate() {
+  const lines = [
+    "Generic (International Name),Strength,Dosage Form,Product Category,Expiry Date,Pack Contents,Batch / Lot Number,Item Quantity,Unit Price,Country of Manufacture",
+    "Paracetamol,500mg,tablet,Analgesics,30/06/2020,30,B1,10,2,India",
+  ];
+  const bytes = new TextEncoder().encode(lines.join("\n")).buffer;
+  const expired = (res) => res.errors.some((e) => e.code === "expired");
+
+  assert.ok(expired(await parseProductsFileFromBuffer(bytes, "ref.csv")));
+  const audit = await parseProductsFileFromBuffer(bytes, "ref.csv", { referenceDate: new Date(Date.UTC(2020, 5, 1)) });
+  assert.ok(!expired(audit), "not yet expired on the stock-take date");
+  assert.equal(audit.meta.summary.referenceDate, "2020-06-01");
+  assert.ok(expired(await parseProductsFileFromBuffer(bytes, "ref.csv", { referenceDate: "2020-06-30" })), "expiry day itself counts as expired");
+
+  let streamedExpired = false;
+  for await (const ev of parseProductsStream(bytes, "ref.csv", { referenceDate: "2020-06-01" })) {
+    if (ev.type === "error" && ev.error.code === "expired") streamedExpired = true;
+  }
+  assert.equal(streamedExpired, false);
+
+  const bad = await parseProductsFileFromBuffer(bytes, "ref.csv", { referenceDate: "not a date" });
+  assert.ok(bad.errors.some((e) => e.code === "E_REFERENCE_DATE" && e.row === 1));
+  assert.ok(expired(bad));
+
+  // Option errors (referenceDate, columnMapping target, umbrella rule) are reported once per file, not once per sheet
+  const header = lines[0].split(",");
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([header, lines[1].split(",")]), "Addis");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([header, ["Ibuprofen", "400mg", "tablet", "Analgesics", "31/12/2099", 30, "B2", 5, 3, "India"]]), "Adama");
+  const u8 = XLSX.write(wb, { type: "array" });
+  const badOptions = {
+    sheets: "all",
+    referenceDate: "not a date",
+    columnMapping: { "Pack Contents": "pkg.not_a_field" },
+    umbrellaClassifier: [{ id: "bad id", label: "Bad", categoryKeywords: ["bad"] }],
+  };
+  const optionCodes = ["E_REFERENCE_DATE", "E_COLUMN_MAPPING_TARGET", "E_UMBRELLA_RULE_INVALID"];
+  const sheets = await parseProductsFileFromBuffer(u8, "ref.xlsx", badOptions);
+  for (const code of optionCodes) {
+    const found = sheets.errors.filter((e) => e.code === code);
+    assert.equal(found.length, 1, `${code} reported once`);
+    assert.equal(found[0].sheet, undefined, `${code} is not tagged with a sheet`);
+  }
+  const perSheet = sheets.meta.sheets.map((s) => s.errorCount);
+  assert.deepEqual(perSheet, ["Addis", "Adama"].map((n) => sheets.errors.filter((e) => e.sheet === n).length), "option errors are not counted per sheet");
+  assert.ok(sheets.errors.filter((e) => e.sheet).every((e) => !optionCodes.includes(e.code)));
+  const streamed = {};
+  for await (const ev of parseProductsStream(u8, "ref.xlsx", badOptions)) {
+    if (ev.type === "error" && optionCodes.includes(ev.error.code)) {
+      assert.equal(ev.error.sheet, undefined);
+      streamed[ev.error.code] = (streamed[ev.error.code] ?? 0) + 1;
+    }
+  }
+  assert.deepEqual(streamed, { E_REFERENCE_DATE: 1, E_COLUMN_MAPPING_TARGET: 1, E_UMBRELLA_RULE_INVALID: 1 });
+}